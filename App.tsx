@@ -1,15 +1,20 @@
 import React, { useState, useEffect } from 'react';
-import { EMPTY_STATE, INITIAL_BUNDLE } from './constants';
+import { EMPTY_STATE, INITIAL_BUNDLE, MAP_SIZES } from './constants';
 import { WorldBundle, WorldState, DecisionTrace, ThemeConfig, Tile, NPC } from './types';
-import { runGenesisAgent, runManagerAgent, runHistoryAgent, generateLoadingMessages, runToolEvolutionAgent, runWorldEventAgent, runToolExecutionAgent } from './services/aiService';
-import { API_KEY_REQUIRED_MESSAGE, getProviderConfig, hasApiKey, setProviderConfig, setStoredApiKey } from './services/aiSettings';
+import { runGenesisAgent, generateLoadingMessages } from './services/aiService';
+import { API_KEY_REQUIRED_MESSAGE, getProviderConfig, hasApiKey, requiresEndpoint, setProviderConfig, setStoredApiKey } from './services/aiSettings';
 import type { ProviderId } from './services/aiSettings';
-import { buildStructure, simulateEconomy, generateWorldDiff, applyInfluence } from './services/toolService';
-import { addTool, canUseTool, getToolById, loadToolDb, markToolUsed, saveToolDb } from './services/toolDb';
+import { loadToolDb, saveToolDb } from './services/toolDb';
 import type { ToolDB } from './services/toolDb';
-import { resolveCombatConflict } from './services/godEngine';
-import { updateMemoryStrengths } from './services/memoryService';
-import { Card, Button, WorldMap, TraceModal, SetupModal, GenesisLoading, TileInspector, NPCChatModal, ApiKeyModal } from './components/UIComponents';
+import { SimulationEngine } from './services/simulationEngine';
+import { createRngState } from './services/rng';
+import { repairWorld } from './services/worldIntegrity';
+import { acceptQuest, deliverQuestGoods, PLAYER_ID } from './services/quests';
+import { initialPrices, initialStockpile, withStapleCommodities } from './services/markets';
+import { beginTranscript, getTranscript, getTranscriptMode, resetTranscriptCursors, saveTranscriptCursors, setTranscriptMode } from './services/transcript';
+import type { TranscriptMode } from './services/transcript';
+import type { MapSize } from './services/terrainGenerator';
+import { Card, Button, WorldMap, FactionLedger, QuestBoard, TraceModal, SetupModal, GenesisLoading, TileInspector, NPCChatModal, ApiKeyModal } from './components/UIComponents';
 
 const TimeTransition = ({ active }: { active: boolean }) => (
   <div className={`fixed inset-0 z-[60] pointer-events-none transition-all duration-[1500ms] ${active ? 'bg-black opacity-60' : 'bg-transparent opacity-0'}`}>
@@ -25,21 +30,26 @@ const App = () => {
     if (saved) {
       try {
         const parsed = JSON.parse(saved);
-        return {
-          ...INITIAL_BUNDLE,
-          ...parsed,
-          world_state: {
-            ...INITIAL_BUNDLE.world_state,
-            ...(parsed.world_state || {}),
-            map: {
-              ...INITIAL_BUNDLE.world_state.map,
-              ...(parsed.world_state?.map || {}),
-              tiles: parsed.world_state?.map?.tiles || [],
-              locations: (parsed.world_state?.map?.locations || []).map((l: any) => ({ ...l, buildings: l.buildings || [] })),
-              routes: parsed.world_state?.map?.routes || [],
-            }
-          }
+        const commodities = withStapleCommodities(parsed.world_state?.economy?.commodities || []);
+        const worldState: WorldState = {
+          ...INITIAL_BUNDLE.world_state,
+          ...(parsed.world_state || {}),
+          rng: parsed.world_state?.rng || createRngState(parsed.meta?.seed || INITIAL_BUNDLE.meta.seed),
+          map: {
+            ...INITIAL_BUNDLE.world_state.map,
+            ...(parsed.world_state?.map || {}),
+            tiles: parsed.world_state?.map?.tiles || [],
+            locations: (parsed.world_state?.map?.locations || []).map((l: any) => ({ ...l, buildings: (l.buildings || []).map((b: any) => ({ ...b, build_days_left: b.build_days_left ?? 0 })), stockpile: l.stockpile || initialStockpile(l, commodities), prices: l.prices || initialPrices(commodities), unrest_days: l.unrest_days ?? 0, occupied_since: l.occupied_since ?? null })),
+            routes: parsed.world_state?.map?.routes || [],
+          },
+          factions: (parsed.world_state?.factions || []).map((f: any) => ({ ...f, ledger: f.ledger || [], reputation: f.reputation ?? 50 })),
+          npcs: (parsed.world_state?.npcs || []).map((n: any) => ({ ...n, last_turn_epoch: n.last_turn_epoch ?? -1 })),
+          treaties: parsed.world_state?.treaties || [],
+          armies: parsed.world_state?.armies || [],
+          quests: (parsed.world_state?.quests || []).map((q: any) => ({ ...q, objectives: q.objectives || [], taken_by: q.taken_by ?? null, issued_epoch: q.issued_epoch ?? 0, expires_epoch: q.expires_epoch ?? 0, resolved_epoch: q.resolved_epoch ?? null })),
+          economy: { ...INITIAL_BUNDLE.world_state.economy, ...(parsed.world_state?.economy || {}), commodities }
         };
+        return { ...INITIAL_BUNDLE, ...parsed, world_state: repairWorld(worldState).state };
       } catch (e) { return INITIAL_BUNDLE; }
     }
     return INITIAL_BUNDLE;
@@ -61,6 +71,7 @@ const App = () => {
 
   useEffect(() => {
     localStorage.setItem('auto_world_v1', JSON.stringify(bundle));
+    saveTranscriptCursors();
   }, [bundle]);
 
   useEffect(() => {
@@ -69,7 +80,7 @@ const App = () => {
 
   useEffect(() => {
     const providerConfig = getProviderConfig();
-    if (providerConfig.providerId !== 'gemini' && !providerConfig.baseUrl.trim()) {
+    if (requiresEndpoint(providerConfig.providerId) && !providerConfig.baseUrl.trim()) {
       setApiKeyError('Error: Provider base URL is required.');
       setShowApiKeyModal(true);
       return;
@@ -101,13 +112,14 @@ const App = () => {
   }, [autoRun, autoSpeed, processing, isGenesis, bundle.world_state.time.epoch]);
 
   const ensureApiKey = () => {
+    if (getTranscriptMode() === 'replay') return true;
     const providerConfig = getProviderConfig();
-    if (providerConfig.providerId !== 'gemini' && !providerConfig.baseUrl.trim()) {
+    if (requiresEndpoint(providerConfig.providerId) && !providerConfig.baseUrl.trim()) {
       setApiKeyError('Error: Provider base URL is required.');
       setShowApiKeyModal(true);
       return false;
     }
-    if (providerConfig.providerId !== 'gemini' && !providerConfig.model.trim()) {
+    if (requiresEndpoint(providerConfig.providerId) && !providerConfig.model.trim()) {
       setApiKeyError('Error: Provider model is required.');
       setShowApiKeyModal(true);
       return false;
@@ -118,8 +130,9 @@ const App = () => {
     return false;
   };
 
-  const handleSaveApiKey = (config: { providerId: ProviderId; apiKey: string; baseUrl: string; model: string }) => {
+  const handleSaveApiKey = (config: { providerId: ProviderId; apiKey: string; baseUrl: string; model: string; transcriptMode: TranscriptMode }) => {
     setProviderConfig({ providerId: config.providerId, baseUrl: config.baseUrl, model: config.model });
+    setTranscriptMode(config.transcriptMode);
     if (config.apiKey.trim()) {
       setStoredApiKey(config.providerId, config.apiKey);
     }
@@ -127,27 +140,40 @@ const App = () => {
     setShowApiKeyModal(false);
   };
 
-  const handleGenesis = async (theme: ThemeConfig) => {
+  const handleGenesis = async (theme: ThemeConfig, mapSize: MapSize = MAP_SIZES.small) => {
     if (!ensureApiKey()) return;
     setProcessing(true);
     setShowSetup(false);
     try {
+      const transcriptMode = getTranscriptMode();
+      const recordedSeed = getTranscript().seed;
+      const seed = transcriptMode === 'replay' && recordedSeed ? recordedSeed : Date.now().toString();
+      // Replays start from the tool archive the recording started from, or the prompts would differ.
+      if (transcriptMode === 'record') beginTranscript(seed, toolDb);
+      if (transcriptMode === 'replay') {
+        resetTranscriptCursors();
+        setToolDb(getTranscript().tool_db || { tools: [], usage: {} });
+      }
+
       const msgs = await generateLoadingMessages(theme);
       setLoadingMsgs(msgs);
 
-      const generatedData = await runGenesisAgent(Date.now().toString(), theme);
-      const newState: WorldState = {
+      const generatedData = await runGenesisAgent(seed, theme, mapSize);
+      const { state: newState } = repairWorld({
         ...EMPTY_STATE,
         ...generatedData as any,
         time: { day: 1, hour: 8, epoch: 1 }
-      };
+      });
       setBundle({ 
         ...bundle, 
         world_state: newState, 
         world_diffs: [],
-        meta: { ...bundle.meta, themeConfig: theme, world_name: `Empire of ${theme.genre}` } 
+        meta: { ...bundle.meta, seed, themeConfig: theme, world_name: `Empire of ${theme.genre}` } 
       });
-    } catch (e) { console.error(e); }
+    } catch (e: any) {
+      console.error(e);
+      if (e?.reports?.length) console.error('Genesis validation reports', e.reports);
+    }
     setProcessing(false);
   };
 
@@ -158,109 +184,25 @@ const App = () => {
     setTimeFlash(true);
     await new Promise(r => setTimeout(r, 600));
 
-    const prevState = JSON.parse(JSON.stringify(bundle.world_state));
-    let nextState = { ...bundle.world_state };
-    const logs: string[] = [];
-
-    nextState.npcs = updateMemoryStrengths(nextState.npcs || [], 0.9);
-    const econResult = simulateEconomy(nextState);
-    nextState = { ...nextState, ...econResult };
-
-    // Process managers with small delay between calls to avoid quota spikes
-    const managers = (nextState.npcs || []).filter(n => n.role === 'Leader' || n.role === 'Merchant').slice(0, 2);
-    for (const manager of managers) {
-      await new Promise(r => setTimeout(r, 800)); // Rate limiting gap
-      const { toolCalls, trace } = await runManagerAgent(manager, nextState, bundle.meta.themeConfig, toolDb);
-      if (trace) nextState.decision_traces = [...(nextState.decision_traces || []), trace];
-      for (const call of toolCalls) {
-        let result = { success: false, message: '', updates: null as any };
-        if (call.name === 'build_structure') {
-          result = buildStructure(nextState, call.args.location_id, call.args.building_type, manager.id, { gold: call.args.cost_gold, grain: call.args.cost_grain, iron: 0 });
-        } else if (call.name === 'simulate_combat') {
-          const cRes = await resolveCombatConflict(nextState, manager.faction_id, call.args.target_faction_id, call.args.location_id);
-          result = { success: true, message: cRes.outcome, updates: cRes.updates };
-        } else if (call.name === 'execute_tool') {
-          const tool = getToolById(toolDb, call.args.tool_id);
-          if (tool && canUseTool(toolDb, tool.id, nextState)) {
-            const execution = await runToolExecutionAgent(nextState, manager, tool, call.args.arguments || {}, bundle.meta.themeConfig);
-            if (execution) {
-              for (const action of execution.calls) {
-                let actionResult = { success: false, message: '', updates: null as any };
-                if (action.tool === 'build_structure') {
-                  actionResult = buildStructure(nextState, action.args.location_id, action.args.building_type, manager.id, { gold: action.args.cost_gold, grain: action.args.cost_grain, iron: 0 });
-                } else if (action.tool === 'simulate_combat') {
-                  const cRes = await resolveCombatConflict(nextState, manager.faction_id, action.args.target_faction_id, action.args.location_id);
-                  actionResult = { success: true, message: cRes.outcome, updates: cRes.updates };
-                } else if (action.tool === 'apply_influence') {
-                  actionResult = applyInfluence(nextState, action.args);
-                }
-                if (actionResult.success && actionResult.updates) {
-                  nextState = { ...nextState, ...actionResult.updates };
-                }
-              }
-              result = { success: true, message: execution.summary, updates: null };
-              setToolDb(prev => markToolUsed(prev, tool.id, nextState.time.epoch));
-            } else {
-              result = { success: false, message: 'Tool execution failed', updates: null };
-            }
-          } else {
-            result = { success: false, message: 'Tool unavailable', updates: null };
-          }
-        }
-        if (result.success) {
-          if (result.updates) nextState = { ...nextState, ...result.updates };
-          if (result.message) logs.push(`${manager.name}: ${result.message}`);
-        }
-      }
-    }
-
-    if (logs.length > 0) {
-      const summary = await runHistoryAgent(logs);
-      nextState.event_log = [...(nextState.event_log || []), { 
-        id: `evt_${Date.now()}`, epoch: nextState.time.epoch, type: 'summary', title: `Day ${nextState.time.day} Summary`, 
-        summary, impact: {}, decision_trace_id: (nextState.decision_traces?.length ? nextState.decision_traces[nextState.decision_traces.length-1].decision_trace_id : null)
-      }];
-    }
-
-    const worldEvent = await runWorldEventAgent(nextState, bundle.meta.themeConfig);
-    if (worldEvent) {
-      nextState.event_log = [...(nextState.event_log || []), {
-        id: `evt_world_${Date.now()}`,
-        epoch: nextState.time.epoch,
-        type: worldEvent.type,
-        title: worldEvent.title,
-        summary: worldEvent.summary,
-        impact: {},
-        decision_trace_id: null
-      }];
-    }
-
-    if (toolDb.last_evolved_epoch !== nextState.time.epoch) {
-      const newTool = await runToolEvolutionAgent(nextState, toolDb, bundle.meta.themeConfig);
-      if (newTool) {
-        setToolDb(prev => ({
-          ...addTool(prev, newTool),
-          last_evolved_epoch: nextState.time.epoch
-        }));
-        nextState.event_log = [...(nextState.event_log || []), {
-          id: `evt_tool_${Date.now()}`,
-          epoch: nextState.time.epoch,
-          type: 'tool_evolution',
-          title: `Tool Emerged: ${newTool.name}`,
-          summary: newTool.lore || newTool.description,
-          impact: { tool_id: newTool.id },
-          decision_trace_id: null
-        }];
-      }
-    }
-
-    nextState.time.day += 1;
-    nextState.time.epoch += 1;
-    setBundle(prev => ({ ...prev, world_state: nextState, world_diffs: [...prev.world_diffs, generateWorldDiff(prevState, nextState, nextState.time.epoch)] }));
+    try {
+      const result = await SimulationEngine.step(bundle, toolDb);
+      setBundle(result.bundle);
+      setToolDb(result.toolDb);
+    } catch (e) { console.error(e); }
     setTimeout(() => setTimeFlash(false), 900);
     setProcessing(false);
   };
 
+  const handleTakeQuest = (questId: string) => {
+    const result = acceptQuest(bundle.world_state, PLAYER_ID, { quest_id: questId });
+    if (result.success && result.updates) setBundle({ ...bundle, world_state: { ...bundle.world_state, ...result.updates } });
+  };
+
+  const handleDeliverQuest = (questId: string) => {
+    const result = deliverQuestGoods(bundle.world_state, PLAYER_ID, { quest_id: questId });
+    if (result.success && result.updates) setBundle({ ...bundle, world_state: { ...bundle.world_state, ...result.updates } });
+  };
+
   const currentSelectedNPC = selectedNPCId ? bundle.world_state.npcs.find(n => n.id === selectedNPCId) : null;
 
   return (
@@ -312,15 +254,18 @@ const App = () => {
                 <p className="text-sm font-mono tracking-widest uppercase mb-6">Simulation Idle</p>
                 <Button onClick={() => setShowSetup(true)}>Begin Genesis</Button>
               </div>
-            ) : <WorldMap map={bundle.world_state.map} factions={bundle.world_state.factions || []} onTileClick={setSelectedTile} />}
+            ) : <WorldMap map={bundle.world_state.map} factions={bundle.world_state.factions || []} armies={bundle.world_state.armies || []} onTileClick={setSelectedTile} />}
           </Card>
           {!isGenesis && (
             <>
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                <Card title="Factions">{(bundle.world_state.factions || []).map(f => <div key={f.id} className="text-xs border-b border-white/5 py-1 flex justify-between"><span>{f.name}</span><span className="text-realm-accent font-bold">{f.military?.troops} Soldiers</span></div>)}</Card>
+                <Card title="Factions">{(bundle.world_state.factions || []).map(f => <FactionLedger key={f.id} faction={f} factions={bundle.world_state.factions || []} armies={bundle.world_state.armies || []} />)}</Card>
                 <Card title="Economy">{(bundle.world_state.economy.commodities || []).map(c => <div key={c.id} className="text-[10px] flex justify-between py-1 border-b border-white/5"><span>{c.id}</span><span className={c.current_price > c.base_price ? 'text-realm-danger' : 'text-realm-success'}>{c.current_price.toFixed(1)}G</span></div>)}</Card>
                 <Card title="Agents">{(bundle.world_state.npcs || []).slice(0, 4).map(n => <div key={n.id} onClick={() => setSelectedNPCId(n.id)} className="text-[10px] bg-white/5 p-2 rounded cursor-pointer hover:bg-realm-accent/10 mb-1">{n.name} ({n.role})</div>)}</Card>
               </div>
+              <Card title="Quest Board">
+                <QuestBoard worldState={bundle.world_state} onTake={handleTakeQuest} onDeliver={handleDeliverQuest} />
+              </Card>
               <Card title="Tool Archive">
                 {toolDb.tools.length === 0 ? (
                   <div className="text-xs text-gray-500 italic">No shared tools yet. The archive will evolve as days pass.</div>
@@ -341,7 +286,7 @@ const App = () => {
           <Card title="Chronicle" className="h-full flex flex-col">
              <div className="overflow-y-auto pr-3 space-y-4 flex-1 custom-scrollbar">
                {[...(bundle.world_state.event_log || [])].reverse().map((evt) => {
-                 const accent = evt.type === 'tool_evolution' ? 'border-realm-warning' : evt.type === 'world_event' ? 'border-realm-success' : 'border-realm-accent';
+                 const accent = evt.type === 'tool_evolution' ? 'border-realm-warning' : evt.type === 'world_event' ? 'border-realm-success' : evt.type === 'validation' ? 'border-realm-danger' : 'border-realm-accent';
                  return (
                    <div key={evt.id} className={`bg-black/40 border-l-2 ${accent} p-4 rounded-xl group animate-in slide-in-from-right duration-500`}>
                      <div className="flex justify-between items-start mb-2">
@@ -369,6 +314,7 @@ const App = () => {
           initialProvider={getProviderConfig().providerId}
           initialBaseUrl={getProviderConfig().baseUrl}
           initialModel={getProviderConfig().model}
+          initialTranscriptMode={getTranscriptMode()}
         />
       )}
       {selectedTile && <TileInspector tile={selectedTile} worldState={bundle.world_state} onClose={() => setSelectedTile(null)} onSelectNPC={(npc: NPC) => setSelectedNPCId(npc.id)} />}
@@ -1,10 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { WorldState, Tile, DecisionTrace, ThemeConfig, NPC, Faction, Location } from '../types';
-import { TERRAIN_COLORS } from '../constants';
+import { TERRAIN_COLORS, MAP_SIZES, LAW_RULES, BUILDING_CATALOG } from '../constants';
 import { generateCharacterPortrait, interactWithNPC, generateSpeech } from '../services/aiService';
 import { addMemoryToNPC } from '../services/memoryService';
-import { PROVIDER_OPTIONS } from '../services/aiSettings';
+import { buildingSlots } from '../services/buildings';
+import { describeObjective, openQuests, PLAYER_ID } from '../services/quests';
+import { PROVIDER_OPTIONS, requiresEndpoint } from '../services/aiSettings';
 import type { ProviderId } from '../services/aiSettings';
+import { exportTranscript, getTranscript, importTranscript } from '../services/transcript';
+import type { TranscriptMode } from '../services/transcript';
 
 // Audio decoding helpers
 function decode(base64: string) {
@@ -85,13 +89,21 @@ const CloudOverlay = () => (
 export const WorldMap = ({ 
   map, 
   factions, 
+  armies = [],
   onTileClick 
 }: { 
   map: WorldState['map'], 
   factions: any[],
+  armies?: WorldState['armies'],
   onTileClick: (tile: Tile) => void
 }) => {
   if (!map || !map.tiles) return <div className="animate-pulse text-gray-500">Scanning World...</div>;
+
+  const roads = new Map<string, 'active' | 'disrupted'>();
+  (map.routes || []).forEach(route => (route.path || []).forEach(p => {
+    const key = `${p.x}-${p.y}`;
+    if (roads.get(key) !== 'active') roads.set(key, route.status);
+  }));
   
   return (
     <div className="relative group rounded-lg overflow-hidden border border-gray-800 shadow-[0_0_50px_rgba(0,0,0,0.5)]">
@@ -115,7 +127,13 @@ export const WorldMap = ({
             >
               {tile.terrain === 'water' && <div className="absolute inset-0 animate-pulse opacity-20 bg-white/20 blur-[1px]"></div>}
               {tile.terrain === 'mountain' && <div className="absolute inset-0 bg-gradient-to-tr from-black/20 to-transparent"></div>}
+              {tile.river && <div className="absolute inset-x-[35%] inset-y-0 bg-sky-400/70 rounded-full"></div>}
               {faction && <div className="absolute inset-0 opacity-20 bg-realm-accent" />}
+              {roads.has(`${tile.x}-${tile.y}`) && !location && <div className={`absolute inset-[40%] rounded-full ${roads.get(`${tile.x}-${tile.y}`) === 'active' ? 'bg-amber-300/80' : 'bg-realm-danger/60'}`} />}
+              {tile.contested && <div className="absolute inset-0 border border-dashed border-realm-danger/70" />}
+              {armies.some(a => a.x === tile.x && a.y === tile.y && a.status !== 'garrisoned') && (
+                <div className={`absolute top-0 right-0 text-[9px] leading-none z-10 ${armies.some(a => a.x === tile.x && a.y === tile.y && a.status === 'besieging') ? 'animate-pulse' : ''}`}>⚔️</div>
+              )}
               {location && (
                 <div className="absolute inset-0 flex items-center justify-center">
                    <div className={`text-sm transform group-hover:scale-150 transition-transform duration-300 drop-shadow-[0_0_8px_rgba(255,255,255,0.5)] ${location.unrest > 50 ? 'animate-bounce' : 'animate-pulse'}`}>
@@ -137,13 +155,14 @@ export const TileInspector = ({ tile, worldState, onClose, onSelectNPC }: any) =
   const location = worldState.map.locations?.find((l:any) => l.id === tile.location_id);
   const faction = worldState.factions?.find((f:any) => f.id === tile.owner_faction_id);
   const npcsHere = (worldState.npcs || []).filter((n:any) => n.location_id === location?.id);
+  const armiesHere = (worldState.armies || []).filter((a:any) => a.x === tile.x && a.y === tile.y);
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-40 p-4 animate-in fade-in zoom-in duration-200" onClick={onClose}>
       <div className="bg-realm-panel border border-realm-accent/50 rounded-2xl p-6 max-w-sm w-full shadow-[0_0_50px_rgba(0,0,0,0.8)] relative" onClick={e => e.stopPropagation()}>
         <button onClick={onClose} className="absolute top-4 right-4 text-gray-500 hover:text-white transition-colors">✕</button>
         <div className="mb-6">
           <h3 className="text-2xl font-bold text-white mb-1">{location ? location.name : 'Wilderness'}</h3>
-          <p className="text-xs text-realm-accent uppercase tracking-widest font-mono">COORD: {tile.x}, {tile.y} • {tile.terrain} {faction ? `• ${faction.name}` : ''}</p>
+          <p className="text-xs text-realm-accent uppercase tracking-widest font-mono">COORD: {tile.x}, {tile.y} • {tile.terrain} {faction ? `• ${faction.name}` : ''} {tile.contested ? '• contested' : ''}</p>
         </div>
         {location ? (
           <div className="space-y-6">
@@ -161,6 +180,47 @@ export const TileInspector = ({ tile, worldState, onClose, onSelectNPC }: any) =
                 <div className={`text-sm font-mono font-bold text-realm-danger`}>{location.unrest}%</div>
               </div>
             </div>
+            {(location.unrest_days > 0 || location.occupied_since !== null) && (
+              <div className="text-[10px] font-mono text-realm-danger">
+                {location.unrest_days > 0 ? `Restless for ${location.unrest_days} day(s)` : `Occupied since day ${location.occupied_since}`}
+              </div>
+            )}
+            {Object.keys(location.stockpile || {}).length > 0 && (
+              <div>
+                <h4 className="text-[10px] font-bold text-gray-500 uppercase mb-3 tracking-widest border-l-2 border-realm-accent pl-2">Market</h4>
+                <div className="flex flex-wrap gap-2">
+                  {Object.entries(location.stockpile).map(([commodity, amount]: [string, any]) => (
+                    <span key={commodity} className="text-[10px] font-mono bg-black/40 border border-gray-700/50 rounded px-2 py-1 text-gray-300">{commodity} {Math.round(amount)}{location.prices?.[commodity] !== undefined ? ` @ ${location.prices[commodity].toFixed(1)}G` : ''}</span>
+                  ))}
+                </div>
+              </div>
+            )}
+            {(location.buildings || []).length > 0 && (
+              <div>
+                <h4 className="text-[10px] font-bold text-gray-500 uppercase mb-3 tracking-widest border-l-2 border-realm-accent pl-2">Buildings ({location.buildings.length}/{buildingSlots(location)})</h4>
+                <div className="space-y-1">
+                  {location.buildings.map((b: any) => (
+                    <div key={b.id} className="flex justify-between text-[10px] font-mono text-gray-300">
+                      <span>{BUILDING_CATALOG[b.type as keyof typeof BUILDING_CATALOG]?.name || b.type} L{b.level}</span>
+                      <span className={b.status === 'damaged' ? 'text-realm-danger' : 'text-gray-500'}>{b.status}{b.status === 'building' ? ` ${b.build_days_left}d` : ''}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            {armiesHere.length > 0 && (
+              <div>
+                <h4 className="text-[10px] font-bold text-gray-500 uppercase mb-3 tracking-widest border-l-2 border-realm-accent pl-2">Armies</h4>
+                <div className="space-y-1">
+                  {armiesHere.map((army: any) => (
+                    <div key={army.id} className="flex justify-between text-[10px] font-mono text-gray-300">
+                      <span>{army.name} <span className="text-gray-500">({worldState.factions?.find((f:any) => f.id === army.faction_id)?.name})</span></span>
+                      <span className={army.status === 'besieging' ? 'text-realm-danger' : 'text-gray-500'}>{army.troops} • {army.status}{army.status === 'besieging' ? ` d${army.siege_days}` : ''}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
             <div>
               <h4 className="text-[10px] font-bold text-gray-500 uppercase mb-3 tracking-widest border-l-2 border-realm-accent pl-2">Inhabitants</h4>
               <div className="space-y-2 max-h-40 overflow-y-auto custom-scrollbar">
@@ -169,7 +229,7 @@ export const TileInspector = ({ tile, worldState, onClose, onSelectNPC }: any) =
                   <div key={npc.id} onClick={() => onSelectNPC(npc)} className="flex items-center justify-between bg-white/5 p-3 rounded-xl cursor-pointer hover:bg-realm-accent/20 border border-transparent hover:border-realm-accent/50 transition-all group">
                      <div>
                        <div className="text-sm font-bold text-blue-200 group-hover:text-white">{npc.name}</div>
-                       <div className="text-[10px] text-gray-500 uppercase tracking-tighter">{npc.role}</div>
+                       <div className="text-[10px] text-gray-500 uppercase tracking-tighter">{npc.role}{npc.travel ? ` • en route, ${npc.travel.days_remaining}d` : ''}</div>
                      </div>
                      <span className="text-lg opacity-40 group-hover:opacity-100 transition-opacity">💬</span>
                   </div>
@@ -177,6 +237,15 @@ export const TileInspector = ({ tile, worldState, onClose, onSelectNPC }: any) =
               </div>
             </div>
           </div>
+        ) : armiesHere.length > 0 ? (
+          <div className="space-y-1">
+            {armiesHere.map((army: any) => (
+              <div key={army.id} className="flex justify-between text-[10px] font-mono text-gray-300">
+                <span>{army.name}</span>
+                <span className="text-gray-500">{army.troops} • {army.status}</span>
+              </div>
+            ))}
+          </div>
         ) : <p className="text-gray-500 text-sm italic py-8 text-center border border-dashed border-gray-700 rounded-xl">Nothing but wild {tile.terrain} here.</p>}
       </div>
     </div>
@@ -275,6 +344,75 @@ export const NPCChatModal = ({ npc, worldState, theme, onClose, onUpdateNPC }: a
   );
 };
 
+export const FactionLedger = ({ faction, factions = [], armies = [] }: any) => {
+  const [open, setOpen] = useState(false);
+  const field = armies.filter((a: any) => a.faction_id === faction.id).reduce((sum: number, a: any) => sum + a.troops, 0);
+  const entry = faction.ledger?.length ? faction.ledger[faction.ledger.length - 1] : undefined;
+  return (
+    <div className="text-xs border-b border-white/5 py-1">
+      <div onClick={() => setOpen(!open)} className="flex justify-between cursor-pointer hover:text-white">
+        <span>{faction.name}{entry?.deficits.length ? <span className="text-realm-danger"> • short of {entry.deficits.join(', ')}</span> : null}</span>
+        <span className="text-realm-accent font-bold">{faction.military?.troops} Soldiers{field ? ` + ${field} afield` : ''}</span>
+      </div>
+      {open && (
+        <div className="mt-1 pl-2 font-mono text-[10px] text-gray-400 space-y-0.5">
+          <div className="text-gray-300">G {faction.resources.gold} • Gr {faction.resources.grain} • Fe {faction.resources.iron} • Rep {faction.reputation ?? 50}</div>
+          {(faction.laws || []).map((law: any) => (
+            <div key={law.id} className="flex justify-between" title={law.text}>
+              <span>⚖ {law.id.replace('_', ' ')} {law.level}</span>
+              <span className={law.enforcement < LAW_RULES.lax_enforcement ? 'text-realm-danger' : ''}>{law.enforcement}% enforced</span>
+            </div>
+          ))}
+          {(faction.relationships || []).map((r: any) => (
+            <div key={r.target_faction_id} className="flex justify-between">
+              <span>{factions.find((f: any) => f.id === r.target_faction_id)?.name || r.target_faction_id}</span>
+              <span className={r.type === 'hostile' ? 'text-realm-danger' : r.type === 'allied' ? 'text-realm-success' : ''}>{r.type === 'hostile' ? 'at war' : r.type} ({r.score})</span>
+            </div>
+          ))}
+          {!entry && <div className="italic text-gray-600">No books closed yet.</div>}
+          {entry?.lines.map((line: any, i: number) => (
+            <div key={i} className="flex justify-between">
+              <span>{line.item}</span>
+              <span className={line.amount < 0 ? 'text-realm-danger' : 'text-realm-success'}>{line.amount > 0 ? '+' : ''}{line.amount} {line.resource}</span>
+            </div>
+          ))}
+          {!!entry?.deserted && <div className="text-realm-danger">{entry.deserted} soldiers deserted</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const QuestBoard = ({ worldState, onTake, onDeliver }: any) => {
+  const open = openQuests(worldState);
+  const purse = worldState.player?.resources;
+  return (
+    <div className="text-xs space-y-2">
+      {open.length === 0 && <div className="text-gray-500 italic">Nobody is asking for help right now.</div>}
+      {open.map((quest: any) => (
+        <div key={quest.id} className="border-b border-white/5 pb-2">
+          <div className="flex justify-between items-start gap-2">
+            <span className="text-white font-bold">{quest.title}</span>
+            <span className="text-realm-warning font-mono whitespace-nowrap">{quest.reward.gold}G</span>
+          </div>
+          <div className="text-[10px] text-gray-400">
+            {worldState.npcs.find((n: any) => n.id === quest.giver_npc_id)?.name}: {quest.objectives.map((o: any) => describeObjective(worldState, o)).join('; ')}
+          </div>
+          <div className="flex justify-between items-center text-[10px] font-mono text-gray-500 mt-1">
+            <span>until day {quest.expires_epoch}</span>
+            {quest.taken_by
+              ? quest.taken_by === PLAYER_ID && quest.objectives.some((o: any) => o.kind === 'deliver' && o.delivered < o.amount)
+                ? <button onClick={() => onDeliver(quest.id)} className="text-realm-accent hover:text-white underline">Deliver</button>
+                : <span>{quest.taken_by === PLAYER_ID ? 'taken by you' : `taken by ${worldState.npcs.find((n: any) => n.id === quest.taken_by)?.name || quest.taken_by}`}</span>
+              : <button onClick={() => onTake(quest.id)} className="text-realm-accent hover:text-white underline">Take on</button>}
+          </div>
+        </div>
+      ))}
+      {purse && <div className="text-[10px] font-mono text-realm-success">Your stores: {Math.round(purse.gold)}G, {Math.round(purse.grain)} grain, {Math.round(purse.iron)} iron</div>}
+    </div>
+  );
+};
+
 export const TraceModal = ({ trace, onClose }: any) => {
   if (!trace) return null;
   return (
@@ -284,7 +422,21 @@ export const TraceModal = ({ trace, onClose }: any) => {
         <h2 className="text-2xl font-bold text-white mb-6">Cognitive Trace // {trace.actor}</h2>
         <div className="space-y-6 font-mono text-xs text-gray-400">
           <section className="bg-black/40 p-4 rounded-xl border border-white/5"><h4 className="text-realm-accent text-[9px] uppercase mb-2">Memory retrieval</h4><ul>{(trace.retrieved_memories || []).map((m:any, i:number) => <li key={i}>› {m.text}</li>)}</ul></section>
-          <section className="bg-realm-accent/5 p-4 rounded-xl border border-realm-accent/20"><h4 className="text-realm-accent text-[9px] uppercase mb-2">Computed Plan</h4><div className="text-sm text-white font-bold">{trace.chosen_plan}</div></section>
+          {(trace.world_facts_used || []).length > 0 && <section className="bg-black/40 p-4 rounded-xl border border-white/5"><h4 className="text-realm-accent text-[9px] uppercase mb-2">World Facts</h4><ul>{trace.world_facts_used.map((f:string, i:number) => <li key={i}>› {f}</li>)}</ul></section>}
+          <section className="bg-realm-accent/5 p-4 rounded-xl border border-realm-accent/20">
+            <h4 className="text-realm-accent text-[9px] uppercase mb-2">Computed Plan{trace.confidence != null ? ` · confidence ${Math.round(trace.confidence * 100)}%` : ''}</h4>
+            <div className="text-sm text-white font-bold">{trace.chosen_plan || <span className="text-gray-500 italic font-normal">No plan</span>}</div>
+            {(trace.plan_candidates || []).length > 0 && <ul className="mt-3 space-y-2">{trace.plan_candidates.map((c:any, i:number) => (
+              <li key={i} className={c.plan === trace.chosen_plan ? 'text-white' : 'opacity-60'}>
+                {c.plan === trace.chosen_plan ? '▸' : '·'} {c.plan}
+                {c.pros.map((p:string, j:number) => <div key={`p${j}`} className="pl-4 text-realm-success">+ {p}</div>)}
+                {c.cons.map((p:string, j:number) => <div key={`c${j}`} className="pl-4 text-realm-danger">− {p}</div>)}
+              </li>
+            ))}</ul>}
+          </section>
+          {(trace.tool_calls || []).length > 0 && <section className="bg-black/40 p-4 rounded-xl border border-white/5"><h4 className="text-realm-accent text-[9px] uppercase mb-2">Steps</h4><ol>{trace.tool_calls.map((s:any, i:number) => <li key={i}>{i + 1}. {s.tool} <span className={s.outputs?.success ? 'text-realm-success' : 'text-realm-danger'}>{s.outputs ? (s.outputs.success ? 'ok' : 'failed') : 'pending'}</span>{s.outputs?.message ? ` · ${s.outputs.message}` : ''}</li>)}</ol></section>}
+          {(trace.rejected_calls || []).length > 0 && <section className="bg-realm-danger/5 p-4 rounded-xl border border-realm-danger/20"><h4 className="text-realm-danger text-[9px] uppercase mb-2">Refused Calls</h4><ul>{trace.rejected_calls.map((r:any, i:number) => <li key={i}>› {r.tool}: {r.reason}</li>)}</ul></section>}
+          <section className="bg-black/40 p-4 rounded-xl border border-white/5"><h4 className="text-realm-accent text-[9px] uppercase mb-2">World Changes</h4>{(trace.world_diff_summary || []).length ? <ul>{trace.world_diff_summary.map((d:string, i:number) => <li key={i}>› {d}</li>)}</ul> : <div>No visible change</div>}</section>
         </div>
       </div>
     </div>
@@ -348,6 +500,7 @@ export const SetupModal = ({ onConfirm, onCancel }: any) => {
   const [genre, setGenre] = useState('');
   const [threat, setThreat] = useState('');
   const [tone, setTone] = useState('');
+  const [mapSize, setMapSize] = useState<keyof typeof MAP_SIZES>('small');
   
   return (
     <div className="fixed inset-0 bg-black/95 flex items-center justify-center z-50 p-4 backdrop-blur-xl animate-in fade-in duration-500">
@@ -381,6 +534,20 @@ export const SetupModal = ({ onConfirm, onCancel }: any) => {
             placeholder="e.g. Hopeful & Vibrant..."
             suggestions={['Grimdark', 'Adventurous', 'Mysterious', 'Whimsical']}
           />
+          <div className="space-y-3">
+            <label className="block text-[10px] font-bold text-realm-accent uppercase tracking-[0.3em]">Map Size</label>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(MAP_SIZES) as (keyof typeof MAP_SIZES)[]).map(key => (
+                <button
+                  key={key}
+                  onClick={() => setMapSize(key)}
+                  className={`text-[9px] px-3 py-1.5 rounded-lg border transition-all font-bold uppercase tracking-widest ${mapSize === key ? 'bg-realm-accent/20 text-white border-realm-accent/30' : 'bg-white/5 text-gray-400 border-white/5 hover:bg-realm-accent/20 hover:text-white'}`}
+                >
+                  {key} {MAP_SIZES[key].width}x{MAP_SIZES[key].height}
+                </button>
+              ))}
+            </div>
+          </div>
         </div>
 
         <div className="flex justify-between items-center pt-8 border-t border-gray-800">
@@ -390,7 +557,7 @@ export const SetupModal = ({ onConfirm, onCancel }: any) => {
                 genre: genre || 'High Fantasy', 
                 threat: threat || 'Bandits', 
                 tone: tone || 'Adventurous' 
-              })} 
+              }, MAP_SIZES[mapSize])} 
               className="px-10 py-4 text-lg"
             >
               Forge Empire
@@ -401,16 +568,32 @@ export const SetupModal = ({ onConfirm, onCancel }: any) => {
   );
 };
 
-export const ApiKeyModal = ({ onSave, onCancel, errorMessage, initialProvider, initialBaseUrl, initialModel }: any) => {
+export const ApiKeyModal = ({ onSave, onCancel, errorMessage, initialProvider, initialBaseUrl, initialModel, initialTranscriptMode }: any) => {
   const [providerId, setProviderId] = useState<ProviderId>(initialProvider || 'gemini');
   const [baseUrl, setBaseUrl] = useState(initialBaseUrl || '');
   const [model, setModel] = useState(initialModel || '');
   const [apiKey, setApiKey] = useState('');
+  const [transcriptMode, setTranscriptMode] = useState<TranscriptMode>(initialTranscriptMode || 'live');
+  const [transcriptSize, setTranscriptSize] = useState(getTranscript().entries.length);
 
   const providerOption = PROVIDER_OPTIONS.find(option => option.id === providerId) || PROVIDER_OPTIONS[0];
-  const missingBaseUrl = providerId !== 'gemini' && !baseUrl.trim();
-  const missingModel = providerId !== 'gemini' && !model.trim();
-  const disableSave = (providerOption.requiresKey && !apiKey.trim()) || missingBaseUrl || missingModel;
+  const missingBaseUrl = requiresEndpoint(providerId) && !baseUrl.trim();
+  const missingModel = requiresEndpoint(providerId) && !model.trim();
+  const disableSave = transcriptMode !== 'replay' && ((providerOption.requiresKey && !apiKey.trim()) || missingBaseUrl || missingModel);
+
+  const handleExportTranscript = () => {
+    const url = URL.createObjectURL(new Blob([exportTranscript()], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `autoworld-transcript-${getTranscript().seed || 'unseeded'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportTranscript = async (file?: File) => {
+    if (!file) return;
+    setTranscriptSize(importTranscript(await file.text()));
+  };
 
   useEffect(() => {
     setBaseUrl(providerOption.defaultBaseUrl);
@@ -441,7 +624,7 @@ export const ApiKeyModal = ({ onSave, onCancel, errorMessage, initialProvider, i
             ))}
           </select>
         </div>
-        {providerId !== 'gemini' && (
+        {requiresEndpoint(providerId) && (
           <div className="mb-4">
             <label className="block text-[10px] font-bold text-realm-accent uppercase tracking-[0.3em] mb-2">Base URL</label>
             <input
@@ -455,7 +638,7 @@ export const ApiKeyModal = ({ onSave, onCancel, errorMessage, initialProvider, i
             />
           </div>
         )}
-        {providerId !== 'gemini' && (
+        {requiresEndpoint(providerId) && (
           <div className="mb-4">
             <label className="block text-[10px] font-bold text-realm-accent uppercase tracking-[0.3em] mb-2">Model</label>
             <input
@@ -476,6 +659,28 @@ export const ApiKeyModal = ({ onSave, onCancel, errorMessage, initialProvider, i
           placeholder={providerOption.requiresKey ? "Paste API key..." : "Optional API key..."}
           className="w-full bg-black/40 border border-gray-700 text-white px-5 py-3 rounded-xl focus:border-realm-accent focus:ring-1 focus:ring-realm-accent/20 focus:outline-none transition-all placeholder:text-gray-600 shadow-inner mb-6"
         />
+        <div className="mb-6">
+          <label className="block text-[10px] font-bold text-realm-accent uppercase tracking-[0.3em] mb-2">Run Mode</label>
+          <select
+            value={transcriptMode}
+            onChange={(e) => setTranscriptMode(e.target.value as TranscriptMode)}
+            className="w-full bg-black/40 border border-gray-700 text-white px-4 py-3 rounded-xl focus:border-realm-accent focus:ring-1 focus:ring-realm-accent/20 focus:outline-none transition-all"
+          >
+            <option value="live">Live</option>
+            <option value="record">Record transcript</option>
+            <option value="replay">Replay transcript (offline)</option>
+          </select>
+          <div className="flex items-center justify-between mt-3 text-[10px] text-gray-500 uppercase tracking-widest">
+            <span>{transcriptSize} recorded calls</span>
+            <div className="flex gap-3">
+              <button onClick={handleExportTranscript} className="hover:text-white transition-colors">Export</button>
+              <label className="hover:text-white transition-colors cursor-pointer">
+                Import
+                <input type="file" accept="application/json" className="hidden" onChange={(e) => handleImportTranscript(e.target.files?.[0])} />
+              </label>
+            </div>
+          </div>
+        </div>
         <div className="flex items-center justify-between pt-4 border-t border-gray-800">
           {onCancel && (
             <button onClick={onCancel} className="text-realm-muted hover:text-white transition-colors text-sm uppercase tracking-widest font-bold">
@@ -483,7 +688,7 @@ export const ApiKeyModal = ({ onSave, onCancel, errorMessage, initialProvider, i
             </button>
           )}
           <Button
-            onClick={() => onSave({ providerId, apiKey, baseUrl, model })}
+            onClick={() => onSave({ providerId, apiKey, baseUrl, model, transcriptMode })}
             disabled={disableSave}
             className="px-8 py-3 text-sm"
           >
@@ -1,4 +1,4 @@
-import { WorldState, WorldBundle } from './types';
+import { WorldState, WorldBundle, TerrainType, LawId, BuildingType, AgentRole } from './types';
 
 export const INITIAL_RULES = {
   tick_minutes: 60, // 1 tick = 1 hour
@@ -6,11 +6,20 @@ export const INITIAL_RULES = {
   reinforce_amount: 0.2,
   max_memory_strength: 1.0,
   max_agents_per_sleep: 3,
+  max_agent_steps: 3, // model calls an agent may make in one turn, each seeing the results of the last
+  max_agent_queries: 4, // observation calls per turn on top of those; they take no game time
   max_major_events_per_sleep: 3
 };
 
+export const MAP_SIZES = {
+  small: { width: 24, height: 16 },
+  medium: { width: 32, height: 20 },
+  large: { width: 40, height: 26 }
+};
+
 export const EMPTY_STATE: WorldState = {
   time: { day: 1, hour: 0, epoch: 0 },
+  rng: { seed: 'default', state: 0 },
   map: {
     width: 24,
     height: 16,
@@ -19,12 +28,15 @@ export const EMPTY_STATE: WorldState = {
     routes: []
   },
   factions: [],
+  treaties: [],
+  armies: [],
   npcs: [],
   economy: {
     commodities: [],
     market_events: []
   },
   quests: [],
+  player: { resources: { gold: 0, grain: 60, iron: 20 } }, // a stake to fill the first delivery quests with
   event_log: [],
   decision_traces: []
 };
@@ -53,4 +65,264 @@ export const TERRAIN_COLORS: Record<string, string> = {
   mountain: '#565f89', // Grey
   water: '#2ac3de', // Blue
   desert: '#e0af68'  // Yellow
-};
\ No newline at end of file
+};
+// Movement points spent to enter a tile of each terrain. Water needs ships.
+export const TERRAIN_MOVE_COSTS: Record<TerrainType, number> = {
+  plains: 1,
+  desert: 1.5,
+  forest: 2,
+  mountain: 4,
+  water: Infinity
+};
+export const NAVAL_MOVE_COST = 1.5;
+export const MOVEMENT_POINTS_PER_DAY = 6;
+
+export const TERRITORY_RULES = {
+  base_range: 3, // movement points
+  population_per_range: 1000,
+  watchtower_range: 2,
+  population_weight: 0.02,
+  defense_weight: 0.01,
+  wall_bonus: 0.2,
+  watchtower_bonus: 0.5,
+  min_influence: 0.05,
+  contest_margin: 0.15
+};
+
+export const TRADE_RULES = {
+  route_setup_gold: 20,
+  max_volume: 30,
+  min_spread: 1,
+  profit_share: 0.5,
+  loss_rate: 0.5, // share of a shipment lost when bandits strike
+  disruption_days: 3
+};
+
+// Goods every world trades in, whatever genesis invents on top.
+export const STAPLE_COMMODITIES = [
+  { id: 'grain', base_price: 10, volatility: 1.5 },
+  { id: 'goods', base_price: 20, volatility: 2 }
+];
+
+export const MARKET_RULES = {
+  consumption_per_pop: { grain: 0.01, goods: 0.004 } as Record<string, number>, // units per resident per day
+  default_consumption_per_pop: 0.002,
+  cover_days: 5, // days of demand a settlement wants in its stockpile
+  subsistence_share: 1.2, // grain the countryside grows without farms, as a share of local demand
+  farm_grain: 10, // per level per day
+  workshop_goods: 6,
+  workshop_iron: 1, // iron a workshop level draws from its faction; without it output halves
+  market_damping: 0.25, // each market level pulls the local price this much closer to the world price
+  market_throughput: 0.5, // extra route volume per market level at the origin
+  levy_above: 1.5, // grain beyond this multiple of the target goes to the faction granary
+  relief_below: 0.5, // the granary tops stockpiles back up to this multiple
+  export_share: 0.5, // share of surplus goods' value banked by the faction
+  mountain_iron: 0.2, // per held mountain tile per day
+  price_floor: 0.5,
+  price_ceiling: 2.5,
+  price_smoothing: 0.5 // weight kept from yesterday's price
+};
+
+export const TREASURY_RULES = {
+  tax_per_pop: 0.01, // gold per resident per day at full prosperity and no unrest
+  troop_grain: 0.02, // per soldier per day; a soldier eats for two residents
+  troop_gold: 0.05,
+  troop_iron: 0.005,
+  deficit_unrest: 5, // added to every settlement per resource the treasury cannot cover
+  desertion_rate: 0.5, // share of unfed or unpaid soldiers who leave
+  unarmed_quality_loss: 0.02, // quality lost per day without iron
+  ledger_days: 30
+};
+
+export const COMBAT_RULES = {
+  march_fatigue: 0.08, // attacker strength lost per day on the road
+  min_fatigue: 0.5,
+  defense_weight: 0.01, // per point of Location.defense
+  wall_bonus: 0.15, // per wall level at the defended settlement
+  barracks_bonus: 0.1, // per barracks level where each side musters
+  terrain_bonus: { plains: 1, desert: 1, forest: 1.2, mountain: 1.5, water: 1 } as Record<TerrainType, number>,
+  river_bonus: 1.1,
+  luck: 0.15, // each side's strength swings by up to this share
+  base_losses: 0.15, // share of troops lost in an even fight
+  conquest_ratio: 1.3, // strength ratio the attacker needs to take the settlement
+  conquest_defense_loss: 10
+};
+
+export const ARMY_RULES = {
+  min_troops: 10, // smaller armies break up
+  field_grain: 0.03, // per soldier per day on campaign, in place of troop_grain
+  bombard_rate: 0.05, // defense knocked down per soldier (times quality) each day of siege
+  assault_after_days: 5, // storm the walls after this long even if they still stand
+  intercept_range: 1 // tiles within which hostile field armies clash
+};
+
+export const DIPLOMACY_RULES = {
+  score_drift: 0.5, // points per day every score moves back towards zero
+  war_hostility: 1, // score lost per day each way while at war
+  siege_hostility: 3, // score the besieged lose towards the besieger per day
+  trade_goodwill: 0.5, // per active route between two factions per day, both ways
+  alliance_goodwill: 0.5,
+  tribute_goodwill: 0.2, // per gold of tribute received
+  truce_accept_score: -40, // lowest sentiment at which a rival agrees to a truce
+  alliance_accept_score: 30,
+  strength_bonus: 30, // sentiment added when the proposer has the stronger army
+  reputation_weight: 0.5, // sentiment added per point of the proposer's reputation above 50
+  betrayal_reputation: 30, // reputation lost for breaking a treaty
+  betrayal_score: 20, // sentiment every other faction loses towards a betrayer
+  betrayal_victim_score: 50,
+  honour_reputation: 5, // earned by both parties when a treaty runs its course
+  reputation_recovery: 0.2, // per day, for reputations below the starting 50
+  default_days: 20,
+  max_days: 60,
+  archetype_tension: { 'chaos:order': -30, 'commerce:nature': -15, 'commerce:order': 10 } as Record<string, number> // starting sentiment, keys sorted
+};
+
+export const BUILDING_CATALOG: Record<BuildingType, { name: string; description: string; cost: { gold: number; grain: number; iron: number }; build_days: number; max_level: number; prosperity: number }> = {
+  farm: { name: 'Farm', description: 'Grows grain every day.', cost: { gold: 40, grain: 10, iron: 0 }, build_days: 3, max_level: 3, prosperity: 2 },
+  market: { name: 'Market', description: 'Steadies local prices and sends bigger caravans.', cost: { gold: 60, grain: 0, iron: 0 }, build_days: 4, max_level: 3, prosperity: 5 },
+  workshop: { name: 'Workshop', description: 'Turns faction iron into goods.', cost: { gold: 50, grain: 0, iron: 5 }, build_days: 4, max_level: 3, prosperity: 3 },
+  barracks: { name: 'Barracks', description: 'Trains recruits for the reserve and hardens troops mustered or defending here.', cost: { gold: 50, grain: 20, iron: 10 }, build_days: 5, max_level: 3, prosperity: 0 },
+  wall: { name: 'Wall', description: 'Fortifies the settlement against assault and holds its borders.', cost: { gold: 70, grain: 0, iron: 15 }, build_days: 6, max_level: 3, prosperity: 0 },
+  inn: { name: 'Inn', description: 'Calms unrest.', cost: { gold: 40, grain: 10, iron: 0 }, build_days: 3, max_level: 2, prosperity: 3 },
+  watchtower: { name: 'Watchtower', description: 'Pushes the border outward.', cost: { gold: 30, grain: 0, iron: 5 }, build_days: 3, max_level: 2, prosperity: 0 }
+};
+
+export const BUILDING_RULES = {
+  base_slots: 2, // buildings any settlement has room for
+  population_per_slot: 500, // one more slot per this many residents
+  repair_share: 0.5, // share of the cost of the building's current level
+  damage_chance: 0.3, // per building per assault in an even fight
+  barracks_recruits: 1, // residents trained into the reserve per level per day
+  inn_calm: 0.3 // unrest per level per day
+};
+
+export const LAW_CATALOG: Record<LawId, { name: string; description: string; min_level: number; max_level: number; default_level: number }> = {
+  tax_rate: { name: 'Tax Rate', description: 'Multiplies settlement taxes; anything above 1 breeds unrest.', min_level: 0.5, max_level: 2, default_level: 1.25 },
+  conscription: { name: 'Conscription', description: 'Drafts residents into the reserve every day, at some cost in goodwill.', min_level: 1, max_level: 3, default_level: 1 },
+  trade_tariff: { name: 'Trade Tariff', description: "Takes this share of foreign caravans' profits at your markets.", min_level: 0.05, max_level: 0.5, default_level: 0.2 },
+  curfew: { name: 'Curfew', description: 'Calms unrest at the cost of prosperity and taxes.', min_level: 1, max_level: 1, default_level: 1 }
+};
+
+export const LAW_RULES = {
+  default_enforcement: 60,
+  enforcement_gold: 0.005, // per point of enforcement per held settlement per day
+  tax_unrest: 2, // daily unrest per point of tax rate above 1
+  conscription_rate: 0.001, // share of residents drafted per level per day at full enforcement
+  conscription_unrest: 0.5, // per level per day
+  curfew_unrest: 2, // unrest calmed per day at full enforcement
+  curfew_prosperity: 0.5, // prosperity lost per day
+  curfew_tax: 0.8, // tax multiplier while a curfew holds
+  lax_enforcement: 50, // below this, a law is openly flouted
+  incident_chance: 0.3, // daily chance of an incident at zero enforcement
+  smuggled_gold: 5, // lost per smuggling incident
+  incident_unrest: 10
+};
+
+export const DEMOGRAPHY_RULES = {
+  growth: 0.0005, // daily growth at full prosperity with a fed population
+  famine_below: 0.3, // grain stock as a share of target below which people starve
+  famine_deaths: 0.005, // share of residents lost per day at an empty granary
+  famine_prosperity: 1,
+  siege_deaths: 0.002, // per day under siege
+  siege_prosperity: 1,
+  migration_rate: 0.002, // share of residents who move per day per 10 points of prosperity gap
+  migration_gap: 10, // prosperity gap below which nobody bothers to move
+  shortage_unrest: 3, // at an empty granary, scaled by how far stock falls short of target
+  occupation_unrest: 2, // per day while occupied
+  assimilation_days: 20, // days until occupiers are accepted
+  calm: 1, // unrest that fades per day in a fed settlement
+  garrison_calm: 0.01, // per garrisoned soldier per day
+  rebellion_unrest: 80,
+  rebellion_days: 5, // consecutive days above the threshold before the settlement rises
+  garrison_suppress: 0.02, // garrisoned soldiers per resident that keep a restless settlement from rising
+  defect_chance: 0.4, // chance a rising joins a neighbouring faction rather than going its own way
+  defect_score: 30, // how far the old ruler's regard for the faction that took the settlement falls
+  rebel_levy: 0.03, // share of residents who take up arms
+  rebel_unrest: 30, // unrest left once the rising succeeds
+  rebel_gold: 50,
+  rebel_grain: 50,
+  rebel_score: -60 // how the rebels and their former rulers regard each other
+};
+
+export const QUEST_RULES = {
+  max_open: 6, // open quests across the world
+  duration_days: 12,
+  goal_chance: 0.05, // per NPC per day, to post a quest from its most pressing goal
+  relief_share: 0.5, // grain asked of a relief quest, as a share of the settlement's stock target
+  unrest_above: 60, // settlements this restless ask for calm
+  calm_to: 40,
+  defeat_share: 0.2, // share of the target faction's troops to be killed
+  min_defeat: 10,
+  reward_markup: 1.5, // per delivered unit, as a multiple of its local price
+  reward_per_troop: 1,
+  unrest_reward: 30,
+  max_reward_share: 0.5, // of the giver's purse when the quest is posted
+  history: 30 // resolved quests kept on the board
+};
+
+// Roles are matched against an NPC's free-text role in this order; anyone unmatched is a commoner.
+export const AGENT_ROLE_CATALOG: Record<AgentRole, { name: string; match: RegExp; weight: number; tools: string[] }> = {
+  general: {
+    name: 'General',
+    match: /general|marshal|commander|captain|warlord|knight|champion|soldier|warrior/i,
+    weight: 2,
+    tools: ['raise_army', 'move_army', 'disband_army', 'build_structure', 'upgrade_structure', 'repair_structure', 'accept_quest', 'travel', 'execute_tool']
+  },
+  spy: {
+    name: 'Spy',
+    match: /spy|agent|assassin|rogue|thief|scout|infiltrator|whisper/i,
+    weight: 1,
+    tools: ['incite_unrest', 'accept_quest', 'travel', 'execute_tool']
+  },
+  priest: {
+    name: 'Priest',
+    match: /priest|cleric|monk|nun|shaman|druid|oracle|prophet|bishop|mystic|sage|healer/i,
+    weight: 1,
+    tools: ['preach', 'deliver_goods', 'accept_quest', 'travel', 'execute_tool']
+  },
+  merchant: {
+    name: 'Merchant',
+    match: /merchant|trader|guild|banker|broker|steward|treasurer|smith|artisan/i,
+    weight: 2,
+    tools: ['build_structure', 'upgrade_structure', 'repair_structure', 'open_trade_route', 'enact_law', 'repeal_law', 'form_alliance', 'deliver_goods', 'accept_quest', 'travel', 'execute_tool']
+  },
+  ruler: {
+    name: 'Ruler',
+    match: /leader|ruler|king|queen|emperor|empress|lord|lady|duke|duchess|baron|prince|princess|chief|regent|chancellor|council|overseer/i,
+    weight: 3,
+    tools: [
+      'build_structure', 'upgrade_structure', 'repair_structure', 'raise_army', 'move_army', 'disband_army',
+      'declare_war', 'propose_treaty', 'form_alliance', 'pay_tribute', 'enact_law', 'repeal_law', 'accept_quest', 'travel', 'execute_tool'
+    ]
+  },
+  commoner: {
+    name: 'Commoner',
+    match: /$^/,
+    weight: 0.5,
+    tools: ['accept_quest', 'travel', 'execute_tool']
+  }
+};
+
+export const PERMISSION_RULES = {
+  sovereign_tools: ['declare_war', 'propose_treaty', 'pay_tribute'], // commit the whole faction; only its leader may use them
+  role_laws: { merchant: ['trade_tariff'] } as Partial<Record<AgentRole, LawId[]>>, // laws officers in these roles may enact or repeal
+  frontier_tiles: 2 // an enemy settlement may only be attacked from land the faction holds within this many tiles of it
+};
+
+export const SCHEDULER_RULES = {
+  goal_weight: 0.5, // per point of the agent's most pressing goal
+  event_weight: 1, // per recent event naming the agent's faction, settlement or the agent itself
+  event_days: 2, // how far back events count as recent
+  crisis_weight: 2, // when the agent's own line of work is pressing: war, unrest or an empty treasury
+  wait_weight: 1 // per day since the agent last acted, so every agent's turn comes round
+};
+
+export const INTRIGUE_RULES = {
+  incite_gold: 15, // from the spy's faction treasury
+  incite_unrest: 10,
+  caught_chance: 0.25,
+  caught_score: 15, // how far the victim's regard for the spy's faction falls when the plot is exposed
+  preach_gold: 5, // alms from the priest's faction treasury
+  preach_calm: 8,
+  preach_prosperity: 1
+};
@@ -0,0 +1,298 @@
+import type { JsonSchema, ToolDefinition } from './llmProvider';
+
+/**
+ * Response and tool schemas shared by every provider. Declared once in neutral JSON-Schema
+ * form; each adapter converts them to its own wire format.
+ */
+
+const string = (extra: Partial<JsonSchema> = {}): JsonSchema => ({ type: 'string', ...extra });
+const number = (extra: Partial<JsonSchema> = {}): JsonSchema => ({ type: 'number', ...extra });
+const object = (properties: Record<string, JsonSchema>, required?: string[]): JsonSchema => ({
+  type: 'object',
+  properties,
+  ...(required ? { required } : {})
+});
+const arrayOf = (items: JsonSchema): JsonSchema => ({ type: 'array', items });
+
+export const GENESIS_SCHEMA: JsonSchema = object({
+  factions: arrayOf(object({
+    id: string(),
+    name: string(),
+    archetype: string(),
+    ideology: string(),
+    leader_npc_id: string(),
+    resources: object({ gold: number(), grain: number(), iron: number() }),
+    military: object({ troops: number(), quality: number() })
+  })),
+  locations: arrayOf(object({
+    id: string(),
+    name: string(),
+    type: string(),
+    x: number(),
+    y: number(),
+    faction_id: string(),
+    population: number(),
+    defense: number(),
+    prosperity: number(),
+    unrest: number()
+  })),
+  npcs: arrayOf(object({
+    id: string(),
+    name: string(),
+    role: string(),
+    faction_id: string(),
+    goals: arrayOf(object({ id: string(), text: string(), priority: number() })),
+    location_id: string()
+  })),
+  commodities: arrayOf(object({
+    id: string(),
+    base_price: number(),
+    current_price: number(),
+    supply: number(),
+    demand: number(),
+    volatility: number()
+  })),
+  initial_event: string()
+});
+
+export const LOADING_MESSAGES_SCHEMA: JsonSchema = arrayOf(string());
+
+export const WORLD_EVENT_SCHEMA: JsonSchema = object({
+  title: string(),
+  summary: string(),
+  type: string()
+}, ['title', 'summary']);
+
+export const TOOL_EVOLUTION_SCHEMA: JsonSchema = object({
+  name: string(),
+  description: string(),
+  action_guidance: string(),
+  parameters: arrayOf(object({
+    name: string(),
+    type: string({ enum: ['string', 'number', 'boolean'] }),
+    description: string()
+  })),
+  cooldown_days: number(),
+  lore: string()
+}, ['name', 'description', 'action_guidance']);
+
+export const TOOL_EXECUTION_SCHEMA: JsonSchema = object({
+  summary: string(),
+  calls: arrayOf(object({
+    tool: string({ enum: ['build_structure', 'raise_army', 'apply_influence'] }),
+    args: { type: 'object' }
+  }, ['tool']))
+}, ['calls']);
+
+export const PLAN_SCHEMA: JsonSchema = object({
+  candidates: arrayOf(object({
+    plan: string(),
+    pros: arrayOf(string()),
+    cons: arrayOf(string())
+  }, ['plan', 'pros', 'cons'])),
+  chosen_index: number(),
+  confidence: number()
+}, ['candidates', 'chosen_index', 'confidence']);
+
+export const MANAGER_TOOLS: ToolDefinition[] = [
+  {
+    name: 'build_structure',
+    description: 'Spawn BuilderAgent to lay down a new level 1 building in one of your settlements. The cost comes from the building catalog; it works once construction finishes.',
+    parameters: object({
+      location_id: string(),
+      building_type: string({ enum: ['market', 'farm', 'workshop', 'barracks', 'wall', 'inn', 'watchtower'] })
+    }, ['location_id', 'building_type'])
+  },
+  {
+    name: 'upgrade_structure',
+    description: 'Raise one of your working buildings a level. Each level costs more than the last.',
+    parameters: object({
+      building_id: string()
+    }, ['building_id'])
+  },
+  {
+    name: 'repair_structure',
+    description: 'Repair one of your damaged buildings for half what its level cost.',
+    parameters: object({
+      building_id: string()
+    }, ['building_id'])
+  },
+  {
+    name: 'raise_army',
+    description: 'Muster an army from the faction reserve at one of your settlements.',
+    parameters: object({
+      location_id: string(),
+      troops: number()
+    }, ['location_id', 'troops'])
+  },
+  {
+    name: 'move_army',
+    description: 'March one of your armies to a location. Armies arriving at an enemy settlement lay siege to it.',
+    parameters: object({
+      army_id: string(),
+      location_id: string()
+    }, ['army_id', 'location_id'])
+  },
+  {
+    name: 'disband_army',
+    description: 'Stand an army down and return its troops to the reserve.',
+    parameters: object({
+      army_id: string()
+    }, ['army_id'])
+  },
+  {
+    name: 'declare_war',
+    description: 'Declare war on another faction. Breaks any treaty with them.',
+    parameters: object({
+      target_faction_id: string()
+    }, ['target_faction_id'])
+  },
+  {
+    name: 'propose_treaty',
+    description: 'Offer a truce for a number of days. Ends a war if accepted.',
+    parameters: object({
+      target_faction_id: string(),
+      duration_days: number()
+    }, ['target_faction_id'])
+  },
+  {
+    name: 'form_alliance',
+    description: 'Propose an alliance with a faction that regards you well.',
+    parameters: object({
+      target_faction_id: string(),
+      duration_days: number()
+    }, ['target_faction_id'])
+  },
+  {
+    name: 'pay_tribute',
+    description: 'Pay another faction gold every day to win its goodwill.',
+    parameters: object({
+      target_faction_id: string(),
+      gold_per_day: number(),
+      duration_days: number()
+    }, ['target_faction_id', 'gold_per_day'])
+  },
+  {
+    name: 'enact_law',
+    description: 'Enact or amend a faction law from the catalog. Write the decree text in your own words.',
+    parameters: object({
+      law_id: string({ enum: ['tax_rate', 'conscription', 'trade_tariff', 'curfew'] }),
+      level: number(),
+      enforcement: number(),
+      text: string()
+    }, ['law_id', 'text'])
+  },
+  {
+    name: 'repeal_law',
+    description: 'Repeal a law currently in force.',
+    parameters: object({
+      law_id: string()
+    }, ['law_id'])
+  },
+  {
+    name: 'accept_quest',
+    description: "Take on an open quest. Its reward is paid to you from the giver's purse when its objectives are met.",
+    parameters: object({
+      quest_id: string()
+    }, ['quest_id'])
+  },
+  {
+    name: 'deliver_goods',
+    description: "Ship grain or iron from your faction's stores to the settlement a delivery quest names. Takes on the quest if nobody has.",
+    parameters: object({
+      quest_id: string(),
+      amount: number()
+    }, ['quest_id'])
+  },
+  {
+    name: 'incite_unrest',
+    description: 'Spy work: stir up unrest in the rival settlement you are standing in, paid from your faction treasury. Plots are sometimes traced back to you.',
+    parameters: object({
+      location_id: string()
+    }, ['location_id'])
+  },
+  {
+    name: 'preach',
+    description: "Priestly work: calm the crowds of your faction's settlement you are standing in, paid in alms from the treasury.",
+    parameters: object({
+      location_id: string()
+    }, ['location_id'])
+  },
+  {
+    name: 'travel',
+    description: 'Journey overland to another location. Takes several days depending on terrain.',
+    parameters: object({
+      location_id: string()
+    }, ['location_id'])
+  },
+  {
+    name: 'open_trade_route',
+    description: 'Establish a caravan route that ships a commodity from one of your settlements to another market every day.',
+    parameters: object({
+      from_location_id: string(),
+      to_location_id: string(),
+      commodity: string(),
+      volume: number()
+    }, ['from_location_id', 'to_location_id', 'commodity', 'volume'])
+  },
+  {
+    name: 'get_location',
+    description: 'Observe (free, no game time): a settlement in full, its owner, people, garrison, buildings and stores.',
+    parameters: object({
+      location_id: string()
+    }, ['location_id'])
+  },
+  {
+    name: 'list_locations_owned',
+    description: 'Observe (free): the settlements a faction holds, with their ids. Defaults to your own faction.',
+    parameters: object({
+      faction_id: string()
+    })
+  },
+  {
+    name: 'get_faction_status',
+    description: "Observe (free): a faction's treasury, troops, armies, laws and yesterday's books. Defaults to your own faction.",
+    parameters: object({
+      faction_id: string()
+    })
+  },
+  {
+    name: 'get_market_prices',
+    description: 'Observe (free): local prices and stock at one settlement, or at every settlement if none is named.',
+    parameters: object({
+      location_id: string()
+    })
+  },
+  {
+    name: 'find_path',
+    description: 'Observe (free): overland travel days between two locations. Starts from where you are unless told otherwise.',
+    parameters: object({
+      from_location_id: string(),
+      to_location_id: string()
+    }, ['to_location_id'])
+  },
+  {
+    name: 'get_relationships',
+    description: 'Observe (free): how a faction and every other regard each other, and the treaties between them. Defaults to your own faction.',
+    parameters: object({
+      faction_id: string()
+    })
+  },
+  {
+    name: 'recall_memory',
+    description: 'Observe (free): search your own memories for a topic.',
+    parameters: object({
+      query: string(),
+      limit: number()
+    }, ['query'])
+  },
+  {
+    name: 'execute_tool',
+    description: 'Use a shared tool from the Tool Archive.',
+    parameters: object({
+      tool_id: string(),
+      arguments: { type: 'object' },
+      note: string()
+    }, ['tool_id'])
+  }
+];
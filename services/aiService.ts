@@ -1,198 +1,98 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { WorldState, Faction, NPC, Location, Tile, DecisionTrace, WorldDiff, Commodity, ThemeConfig } from '../types';
+import { WorldState, NPC, DecisionTrace, ThemeConfig, AgentStep } from '../types';
 import { retrieveMemories } from './memoryService';
-import { API_KEY_REQUIRED_MESSAGE, getProviderConfig, resolveApiKey } from './aiSettings';
 import { describeTools } from './toolDb';
+import { createRng, createRngState, hashString } from './rng';
+import { AGENT_ROLE_CATALOG, BUILDING_CATALOG, LAW_CATALOG, MAP_SIZES, PERMISSION_RULES, TRADE_RULES } from '../constants';
+import { factionReachDays } from './pathfinding';
+import { tradeOpportunities } from './trade';
+import { initialPrices, initialStockpile, withStapleCommodities } from './markets';
+import { lastLedgerEntry, ledgerNet } from './treasury';
+import { buildingSlots } from './buildings';
+import { describeObjective, openQuests } from './quests';
+import { agentRole } from './scheduler';
+import { agentRank, permittedTools } from './permissions';
+import { QUERY_TOOL_NAMES } from './queries';
+import { activeTreaties, atWar, initialRelationships, relationOf } from './diplomacy';
+import { claimTerritory, generateTerrain, placeLocations } from './terrainGenerator';
+import type { MapSize } from './terrainGenerator';
+import { withRetry } from './llmProvider';
+import { getLLMProvider } from './providers';
+import { GENESIS_SCHEMA, LOADING_MESSAGES_SCHEMA, MANAGER_TOOLS, PLAN_SCHEMA, TOOL_EVOLUTION_SCHEMA, TOOL_EXECUTION_SCHEMA, WORLD_EVENT_SCHEMA } from './agentSchemas';
+import { generateWithRepair, drainValidationReports, validateAgentTool, validateGenesisWorld, validatePlan, validateToolCall, validateToolExecution, validateWorldEvent, validationReportEvents } from './validation';
 import type { AgentTool, ToolDB } from './toolDb';
+import type { ValidationResult } from './validation';
 
-// Model definitions
-const PRO_MODEL = 'gemini-3-pro-preview'; 
-const FLASH_MODEL = 'gemini-3-flash-preview';
-const IMAGE_MODEL = 'gemini-2.5-flash-image';
-const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
-const safeJsonParse = <T,>(value: string, fallback: T): T => {
-  try {
-    return JSON.parse(value) as T;
-  } catch {
-    return fallback;
-  }
-};
-
-const getAiProviderKey = () => {
-  const apiKey = resolveApiKey('gemini');
-  if (!apiKey) {
-    throw new Error(API_KEY_REQUIRED_MESSAGE);
-  }
-  return apiKey;
-};
-
-const createAiClient = () => new GoogleGenAI({ apiKey: getAiProviderKey() });
-
-const assertProviderBaseUrl = (baseUrl: string) => {
-  if (!baseUrl) {
-    throw new Error('Provider base URL is required.');
-  }
-};
-
-type OpenAIMessage = { role: 'system' | 'user' | 'assistant'; content: string };
-type OpenAITool = {
-  type: 'function';
-  function: { name: string; description?: string; parameters: Record<string, any> };
-};
+const MANAGER_TOOL_NAMES = MANAGER_TOOLS.map(tool => tool.name);
 
-const callOpenAIChat = async (params: {
-  messages: OpenAIMessage[];
-  tools?: OpenAITool[];
-  responseFormat?: { type: 'json_object' };
-}) => {
-  const provider = getProviderConfig();
-  assertProviderBaseUrl(provider.baseUrl);
+const asArray = (value: any): any[] => Array.isArray(value) ? value : [];
 
-  const apiKey = provider.requiresKey ? resolveApiKey(provider.providerId) : null;
-  if (provider.requiresKey && !apiKey) {
-    throw new Error(API_KEY_REQUIRED_MESSAGE);
-  }
+type TurnPlan = Pick<DecisionTrace, 'plan_candidates' | 'chosen_plan' | 'confidence'>;
 
-  const payload: Record<string, any> = {
-    model: provider.model,
-    messages: params.messages,
+const buildGenesisWorld = (data: any) => {
+  const commodities = withStapleCommodities(asArray(data?.commodities));
+  const factions = asArray(data?.factions);
+  return {
+    factions: factions.map((f: any) => ({ ...f, military: f.military || { troops: 50, quality: 1.0 }, relationships: initialRelationships(factions, f), laws: [], ledger: [], reputation: 50 })),
+    locations: asArray(data?.locations).map((l: any) => {
+      const population = l.population || 1200;
+      return { ...l, faction_id: l.faction_id ?? null, buildings: [], population, stockpile: initialStockpile({ id: l.id, population }, commodities), prices: initialPrices(commodities), unrest_days: 0, occupied_since: null };
+    }),
+    npcs: asArray(data?.npcs).map((n: any) => ({ ...n, memory: [], relationships: [], traits: [], status: 'idle', resources: { gold: 50, influence: 10 }, last_turn_epoch: -1 })),
+    commodities
   };
-
-  if (params.tools && params.tools.length > 0) {
-    payload.tools = params.tools;
-    payload.tool_choice = 'auto';
-  }
-
-  if (params.responseFormat && provider.supportsResponseFormat) {
-    payload.response_format = params.responseFormat;
-  }
-
-  const baseUrl = provider.baseUrl.replace(/\/$/, '');
-  const endpoint = baseUrl.includes('/chat/completions')
-    ? baseUrl
-    : baseUrl.endsWith('/v1')
-      ? `${baseUrl}/chat/completions`
-      : `${baseUrl}/v1/chat/completions`;
-  const response = await fetch(endpoint, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
-    },
-    body: JSON.stringify(payload),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(errorText || `Provider error (${response.status})`);
-  }
-
-  const data = await response.json();
-  return data.choices?.[0]?.message || {};
 };
 
-const parseOpenAIToolCalls = (message: any) => {
-  const toolCalls = message?.tool_calls || [];
-  return toolCalls.map((call: any) => ({
-    name: call.function?.name,
-    args: safeJsonParse(call.function?.arguments || "{}", {}),
-  })).filter((call: any) => call.name);
-};
-
-/**
- * Utility for exponential backoff retries on 429 errors
- */
-const withRetry = async <T>(fn: () => Promise<T>, maxRetries = 3): Promise<T> => {
-  let lastError: any;
-  for (let i = 0; i < maxRetries; i++) {
-    try {
-      return await fn();
-    } catch (error: any) {
-      lastError = error;
-      const errorMsg = error?.message || "";
-      if (errorMsg.includes("429") || errorMsg.includes("quota") || errorMsg.includes("RESOURCE_EXHAUSTED")) {
-        const delay = Math.pow(2, i + 1) * 1000 + Math.random() * 1000;
-        console.warn(`Rate limited (429). Retrying in ${Math.round(delay)}ms... (Attempt ${i + 1}/${maxRetries})`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        continue;
-      }
-      throw error;
-    }
-  }
-  throw lastError;
-};
-
-const generateProceduralMap = (width: number, height: number): Tile[] => {
-  const tiles: Tile[] = [];
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      let terrain: any = 'plains';
-      const noise = Math.sin(x * 0.2) + Math.cos(y * 0.2) + Math.random() * 0.5;
-      if (noise > 1.5) terrain = 'mountain';
-      else if (noise > 1.0) terrain = 'forest';
-      else if (noise < -0.5) terrain = 'water';
-      tiles.push({ x, y, terrain, owner_faction_id: null, location_id: null });
-    }
-  }
-  return tiles;
-};
-
-export const runGenesisAgent = async (seed: string, theme: ThemeConfig): Promise<Partial<WorldState>> => {
+export const runGenesisAgent = async (seed: string, theme: ThemeConfig, size: MapSize = MAP_SIZES.small): Promise<Partial<WorldState>> => {
   return withRetry(async () => {
-    const provider = getProviderConfig();
-    const mapTiles = generateProceduralMap(24, 16);
+    const rng = createRng(createRngState(seed));
+    const mapTiles = generateTerrain(rng, size);
 
     const prompt = `
       GENESIS AGENT: Create a new world based on seed "${seed}".
       USER SETTINGS: GENRE: ${theme.genre}, THREAT: ${theme.threat}, TONE: ${theme.tone}
-      Generate: 3 Factions, 2-3 Locations (x:0-23, y:0-15) with population and faction_id, 6 NPCs, 1 Commodity config, 1 Initial Event Log.
+      Generate: 3 Factions, 2-3 Locations (x:0-${size.width - 1}, y:0-${size.height - 1}) with population and faction_id, 9 NPCs (each faction's leader plus roles such as Merchant, General, Spy or Priest), 1 Commodity config, 1 Initial Event Log.
+      Every faction's leader_npc_id must name one of its own NPCs. Location type is one of town|outpost|ruin|capital.
+      Faction archetype is one of order|chaos|commerce|nature.
       Output strict JSON.
     `;
 
-    let data: any = {};
-    if (provider.providerId === 'gemini') {
-      const ai = createAiClient();
-      const response = await ai.models.generateContent({
-        model: PRO_MODEL,
-        contents: prompt,
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              factions: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { id: {type: Type.STRING}, name: {type: Type.STRING}, archetype: {type: Type.STRING}, ideology: {type: Type.STRING}, resources: {type: Type.OBJECT, properties: {gold: {type: Type.NUMBER}, grain: {type: Type.NUMBER}, iron: {type: Type.NUMBER}}}, military: {type: Type.OBJECT, properties: {troops: {type: Type.NUMBER}, quality: {type: Type.NUMBER}}} } } },
-              locations: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { id: {type: Type.STRING}, name: {type: Type.STRING}, type: {type: Type.STRING}, x: {type: Type.NUMBER}, y: {type: Type.NUMBER}, faction_id: {type: Type.STRING}, population: {type: Type.NUMBER}, defense: {type: Type.NUMBER}, prosperity: {type: Type.NUMBER}, unrest: {type: Type.NUMBER} } } },
-              npcs: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { id: {type: Type.STRING}, name: {type: Type.STRING}, role: {type: Type.STRING}, faction_id: {type: Type.STRING}, goals: {type: Type.ARRAY, items: {type: Type.OBJECT, properties: {id: {type: Type.STRING}, text: {type: Type.STRING}, priority: {type: Type.NUMBER}}}}, location_id: {type: Type.STRING} } } },
-              commodities: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { id: {type: Type.STRING}, base_price: {type: Type.NUMBER}, current_price: {type: Type.NUMBER}, supply: {type: Type.NUMBER}, demand: {type: Type.NUMBER}, volatility: {type: Type.NUMBER} } } },
-              initial_event: { type: Type.STRING }
-            }
-          }
-        }
-      });
-      data = safeJsonParse(response.text || "{}", {});
-    } else {
-      const message = await callOpenAIChat({
-        messages: [
-          { role: 'system', content: 'You generate structured world data for a strategy simulation.' },
-          { role: 'user', content: prompt }
-        ],
-        responseFormat: { type: 'json_object' }
-      });
-      data = safeJsonParse(message.content || "{}", {});
+    const provider = getLLMProvider();
+    const { value: data, errors } = await generateWithRepair('genesis', prompt,
+      p => provider.generateJson({
+        agent: 'genesis',
+        tier: 'pro',
+        system: 'You generate structured world data for a strategy simulation.',
+        prompt: p,
+        schema: GENESIS_SCHEMA,
+        context: { seed, theme, size }
+      }),
+      raw => {
+        const world = buildGenesisWorld(raw);
+        return { value: { ...world, initial_event: raw?.initial_event }, errors: validateGenesisWorld(world, size) };
+      },
+      0
+    );
+    const reports = drainValidationReports();
+    if (errors.length) {
+      // The structured reports ride on the error so the caller can log what was rejected.
+      throw Object.assign(new Error(`Genesis output failed validation: ${errors.slice(0, 5).join('; ')}`), { reports });
     }
 
-    const finalTiles = mapTiles.map(t => {
-      const loc = data.locations?.find((l: any) => l.x === t.x && l.y === t.y);
-      if (loc) return { ...t, location_id: loc.id, owner_faction_id: loc.faction_id };
-      return t;
-    });
+    const locations = placeLocations(mapTiles, data.locations, size);
+    const finalTiles = claimTerritory(mapTiles, locations);
 
     return {
-      map: { width: 24, height: 16, tiles: finalTiles, locations: (data.locations || []).map((l: any) => ({ ...l, buildings: [], population: l.population || 1200 })), routes: [] },
-      factions: (data.factions || []).map((f: any) => ({ ...f, military: f.military || { troops: 50, quality: 1.0 }, relationships: [], laws: [] })),
-      npcs: (data.npcs || []).map((n: any) => ({ ...n, memory: [], relationships: [], traits: [], status: 'idle', resources: { gold: 50, influence: 10 } })),
-      economy: { commodities: data.commodities || [], market_events: [] },
-      event_log: [{ id: 'evt_genesis', epoch: 0, type: 'genesis', title: 'World Created', summary: data.initial_event || 'The world begins.', impact: {}, decision_trace_id: null }]
+      map: { width: size.width, height: size.height, tiles: finalTiles, locations, routes: [] },
+      factions: data.factions,
+      npcs: data.npcs,
+      treaties: [],
+      armies: [],
+      economy: { commodities: data.commodities, market_events: [] },
+      event_log: [
+        { id: 'evt_genesis', epoch: 0, type: 'genesis', title: 'World Created', summary: data.initial_event || 'The world begins.', impact: {}, decision_trace_id: null },
+        ...validationReportEvents(reports, 0)
+      ],
+      rng: rng.snapshot()
     };
   });
 };
@@ -200,191 +100,168 @@ export const runGenesisAgent = async (seed: string, theme: ThemeConfig): Promise
 export const generateLoadingMessages = async (theme: ThemeConfig): Promise<string[]> => {
   return withRetry(async () => {
     const prompt = `Generate exactly 5 short loading steps (max 4 words each) for creating a ${theme.genre} world. JSON array.`;
-    const provider = getProviderConfig();
-    if (provider.providerId === 'gemini') {
-      const ai = createAiClient();
-      const response = await ai.models.generateContent({
-        model: FLASH_MODEL,
-        contents: prompt,
-        config: { responseMimeType: "application/json", responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } } }
-      });
-      return safeJsonParse(response.text || "[]", []);
-    }
-
-    const message = await callOpenAIChat({
-      messages: [
-        { role: 'system', content: 'You output concise JSON arrays.' },
-        { role: 'user', content: prompt }
-      ]
+    const data: any = await getLLMProvider().generateJson({
+      agent: 'loading_messages',
+      system: 'You output concise JSON arrays.',
+      prompt,
+      schema: LOADING_MESSAGES_SCHEMA,
+      context: { theme }
     });
-    const parsed = safeJsonParse(message.content || "[]", []);
-    return Array.isArray(parsed) ? parsed : (parsed.steps || []);
+    // JSON-object response modes wrap the array, e.g. {"steps": [...]}
+    if (Array.isArray(data)) return data;
+    return data?.steps || Object.values(data || {}).find(Array.isArray) || [];
   });
 };
 
+/**
+ * Asks a manager to weigh a few courses of action before it calls any tool. A plan that
+ * cannot be repaired leaves the trace without candidates, choice or confidence rather than
+ * inventing them.
+ */
+const planTurn = async (manager: NPC, state: WorldState, toolDb: ToolDB | undefined, briefing: string): Promise<TurnPlan> => {
+  const prompt = `${briefing}
+      Task: Before acting, weigh 2-4 candidate plans for this turn, each with its pros and cons. Choose one and rate your confidence (0-1) that it will work.
+      Output strict JSON: {"candidates": [{"plan": "...", "pros": ["..."], "cons": ["..."]}], "chosen_index": 0, "confidence": 0.7}.
+    `;
+  const provider = getLLMProvider();
+  const { value: data, errors } = await generateWithRepair('planner', prompt,
+    p => provider.generateJson({
+      agent: 'planner',
+      prompt: p,
+      schema: PLAN_SCHEMA,
+      context: { manager, state, toolDb }
+    }),
+    raw => ({ value: raw, errors: validatePlan(raw) }),
+    state.time.epoch
+  );
+  if (errors.length) return { plan_candidates: [], chosen_plan: '', confidence: null };
+  const candidates = data.candidates.map((c: any) => ({ plan: c.plan, pros: c.pros.map(String), cons: c.cons.map(String) }));
+  return { plan_candidates: candidates, chosen_plan: candidates[data.chosen_index].plan, confidence: data.confidence };
+};
+
+/**
+ * One step of a manager's turn. The first step plans; later steps pass that `plan` back in
+ * so the agent keeps to it while it reacts to what its calls came to.
+ */
 export const runManagerAgent = async (
   manager: NPC,
   state: WorldState,
   theme?: ThemeConfig,
-  toolDb?: ToolDB
+  toolDb?: ToolDB,
+  steps: AgentStep[] = [],
+  plan?: TurnPlan
 ): Promise<{ toolCalls: any[], trace: DecisionTrace }> => {
   // Use FLASH by default for managers to preserve quota
   return withRetry(async () => {
     const memories = retrieveMemories(manager, "current threats opportunities goal");
     const faction = state.factions.find(f => f.id === manager.faction_id);
     const themeContext = theme ? `CONTEXT: The world genre is ${theme.genre} (${theme.tone}). Threats: ${theme.threat}.` : '';
+    const permitted = permittedTools(state, manager);
+    const tools = MANAGER_TOOLS.filter(tool => permitted.includes(tool.name));
     const toolContext = toolDb ? `SHARED TOOL ARCHIVE:\n${describeTools(toolDb)}\nUse execute_tool with tool_id and arguments.` : '';
     const recentEvents = (state.event_log || []).slice(-3).map(evt => `${evt.title}: ${evt.summary}`).join(' | ');
     const econSnapshot = (state.economy.commodities || []).slice(0, 3).map(c => `${c.id} ${c.current_price.toFixed(1)}G`).join(', ');
+    const here = state.map.locations.find(l => l.id === manager.location_id);
+    const localSnapshot = here ? Object.entries(here.prices || {}).map(([id, price]) => `${id} ${price.toFixed(1)}G (stock ${Math.round(here.stockpile?.[id] || 0)})`).join(', ') : '';
     const locationSnapshot = (state.map.locations || []).slice(0, 3).map(l => `${l.name} (Pros:${l.prosperity} Unrest:${l.unrest})`).join(', ');
-    const factionSnapshot = faction ? `Resources G${faction.resources.gold}/Gr${faction.resources.grain}/Fe${faction.resources.iron}, Troops ${faction.military.troops}` : '';
-
-    const prompt = `
-      You are ${manager.name}, the ${manager.role} of ${faction?.name}.
+    const rivalSnapshot = (state.map.locations || []).filter(l => l.faction_id && l.faction_id !== manager.faction_id).slice(0, 4).map(l => {
+      const days = factionReachDays(state, manager.faction_id, l.id);
+      return `${l.name} [${l.id}] ${days === null ? 'unreachable' : `${days}d`}${atWar(state, manager.faction_id, l.faction_id) ? ' AT WAR' : ''}`;
+    }).join(', ');
+    const tradeSnapshot = tradeOpportunities(state, manager.faction_id).map(o => {
+      const name = (id: string) => state.map.locations.find(l => l.id === id)?.name || id;
+      return `${o.commodity} ${name(o.from_location_id)} [${o.from_location_id}] ${o.buy_price}G -> ${name(o.to_location_id)} [${o.to_location_id}] ${o.sell_price}G`;
+    }).join(', ');
+    const armySnapshot = (state.armies || []).filter(a => a.faction_id === manager.faction_id).map(a => {
+      const place = (id: string | null) => state.map.locations.find(l => l.id === id)?.name;
+      const where = a.status === 'marching' ? `marching on ${place(a.destination_location_id)}`
+        : a.status === 'camped' ? `camped at (${a.x}, ${a.y})`
+        : `${a.status} at ${place(a.location_id)}${a.status === 'besieging' ? ` day ${a.siege_days}` : ''}`;
+      return `${a.name} [${a.id}] ${a.troops} troops, ${where}`;
+    }).join(', ');
+    const diplomacySnapshot = state.factions.filter(f => f.id !== manager.faction_id).map(f => {
+      const relation = relationOf(state, manager.faction_id, f.id);
+      const treaties = activeTreaties(state, manager.faction_id, f.id).map(t => `${t.kind} to day ${t.expires_epoch}`);
+      return `${f.name} [${f.id}] ${relation.type} ${relation.score} (their view ${relationOf(state, f.id, manager.faction_id).score}, rep ${f.reputation ?? 50})${treaties.length ? ` ${treaties.join(', ')}` : ''}`;
+    }).join(', ');
+    const lawSnapshot = Object.entries(LAW_CATALOG).map(([id, entry]) => {
+      const law = faction?.laws.find(l => l.id === id);
+      return `${id} ${law ? `IN FORCE level ${law.level}, enforcement ${law.enforcement}` : `not enacted (level ${entry.min_level}-${entry.max_level})`}: ${entry.description}`;
+    }).join('; ');
+    const buildingSnapshot = state.map.locations.filter(l => l.faction_id === manager.faction_id).map(l => {
+      const standing = (l.buildings || []).map(b => `${b.type} L${b.level} [${b.id}]${b.status === 'building' ? ` building ${b.build_days_left}d` : b.status === 'damaged' ? ' DAMAGED' : ''}`);
+      return `${l.name} [${l.id}] ${standing.length}/${buildingSlots(l)} slots: ${standing.join(', ') || 'empty'}`;
+    }).join('; ');
+    const catalogSnapshot = Object.entries(BUILDING_CATALOG).map(([id, entry]) =>
+      `${id} ${entry.cost.gold}G/${entry.cost.grain}Gr/${entry.cost.iron}Fe ${entry.build_days}d max L${entry.max_level}: ${entry.description}`).join('; ');
+    const questSnapshot = openQuests(state).slice(0, 5).map(q => {
+      const giver = state.npcs.find(n => n.id === q.giver_npc_id)?.name || q.giver_npc_id;
+      const holder = !q.taken_by ? 'open' : q.taken_by === manager.id ? 'YOURS' : 'taken';
+      return `"${q.title}" [${q.id}] from ${giver}: ${q.objectives.map(o => describeObjective(state, o)).join(' and ')}; ${q.reward.gold}G by day ${q.expires_epoch} (${holder})`;
+    }).join('; ');
+    const books = faction ? lastLedgerEntry(faction) : undefined;
+    const net = books ? ledgerNet(books) : null;
+    const treasurySnapshot = books && net ? ` Yesterday net G${net.gold}/Gr${net.grain}/Fe${net.iron}${books.deficits.length ? `, SHORT of ${books.deficits.join('/')}` : ''}` : '';
+    const factionSnapshot = faction ? `Resources G${faction.resources.gold}/Gr${faction.resources.grain}/Fe${faction.resources.iron}, Reserve troops ${faction.military.troops}, Reputation ${faction.reputation ?? 50}.${treasurySnapshot}` : '';
+
+    const briefing = `
+      You are ${manager.name}, the ${manager.role} of ${faction?.name}, acting as its ${AGENT_ROLE_CATALOG[agentRole(manager)].name.toLowerCase()}${agentRank(state, manager) === 'sovereign' ? ' and sovereign' : ''}. You are at ${here?.name || 'an unknown place'}.
       ${themeContext}
       FACTION STATUS: ${factionSnapshot}
       KEY LOCATIONS: ${locationSnapshot}
+      DIPLOMACY (armies only march on factions you are at war with; breaking a treaty costs reputation): ${diplomacySnapshot || 'None'}
+      LAWS (enforcement costs gold daily; below 50 laws are flouted): ${lawSnapshot}
+      YOUR BUILDINGS: ${buildingSnapshot || 'None'}
+      BUILDING CATALOG (level 1 cost; upgrades cost that times the new level, repairs half the current level): ${catalogSnapshot}
+      YOUR ARMIES: ${armySnapshot || 'None (raise_army draws from the reserve)'}
+      RIVAL TARGETS (march days): ${rivalSnapshot || 'None'}
       MARKET: ${econSnapshot}
+      LOCAL MARKET${here ? ` (${here.name})` : ''}: ${localSnapshot || 'None'}
+      TRADE OPPORTUNITIES (open_trade_route costs ${TRADE_RULES.route_setup_gold}G): ${tradeSnapshot || 'None'}
+      QUESTS (accept_quest to claim the reward; deliver_goods ships from your stores): ${questSnapshot || 'None'}
       RECENT EVENTS: ${recentEvents || 'None'}
       Goals: ${manager.goals.map(g => g.text).join(', ')}.
+      LIMITS OF OFFICE (calls outside them are refused): build, muster and send caravans only from settlements you hold; armies only attack enemy settlements within ${PERMISSION_RULES.frontier_tiles} tiles of your land; shared tools only act on your own faction.
       ${toolContext}
-      Task: Decide on a strategic move and spawn a sub-agent or invoke a shared tool.
+      OBSERVATION TOOLS (${QUERY_TOOL_NAMES.join(', ')}) are free and take no game time; look ids up with them instead of guessing.`;
+    const turnPlan = plan || await planTurn(manager, state, toolDb, briefing);
+
+    const prompt = `${briefing}
+      ${turnPlan.chosen_plan ? `YOUR PLAN (confidence ${turnPlan.confidence}): ${turnPlan.chosen_plan}` : ''}
+      ${steps.length ? `YOUR CALLS THIS TURN (the world above already reflects them): ${steps.map((s, i) => `${i + 1}. ${s.tool} ${JSON.stringify(s.inputs)} -> ${s.outputs?.success ? 'OK' : 'FAILED'}: ${s.outputs?.message || 'no result'}${s.outputs?.data ? ` ${JSON.stringify(s.outputs.data).slice(0, 600)}` : ''}`).join(' ')}
+      Task: React to these results. Make another call if it is worth it (try something else after a failure), or make no call to end your turn.` : 'Task: Carry out your plan: spawn a sub-agent or invoke a shared tool.'}
     `;
 
-    const TOOLS = [
-      {
-        name: 'build_structure',
-        description: 'Spawn BuilderAgent to construct a building.',
-        parameters: {
-          type: Type.OBJECT,
-          properties: {
-            location_id: { type: Type.STRING },
-            building_type: { type: Type.STRING, enum: ['market', 'farm', 'barracks', 'wall'] },
-            cost_gold: { type: Type.NUMBER },
-            cost_grain: { type: Type.NUMBER }
-          },
-          required: ['location_id', 'building_type', 'cost_gold', 'cost_grain']
-        }
-      },
-      {
-        name: 'simulate_combat',
-        description: 'Spawn TacticianAgent to manage combat.',
-        parameters: {
-          type: Type.OBJECT,
-          properties: { target_faction_id: { type: Type.STRING }, location_id: { type: Type.STRING } },
-          required: ['target_faction_id', 'location_id']
-        }
+    const provider = getLLMProvider();
+    // Calls that still fail after repair are dropped; the valid ones go ahead.
+    const { value: toolCalls } = await generateWithRepair('manager', prompt,
+      p => provider.callTools({
+        agent: 'manager',
+        system: 'You are a strategic NPC manager in a world simulation.',
+        prompt: p,
+        tools,
+        context: { manager, state, toolDb, steps }
+      }),
+      calls => {
+        const checked = asArray(calls).map((call, i) => ({ call, errors: validateToolCall(call, MANAGER_TOOL_NAMES, state, `calls[${i}]`) }));
+        return { value: checked.filter(c => !c.errors.length).map(c => c.call), errors: checked.flatMap(c => c.errors) };
       },
-      {
-        name: 'execute_tool',
-        description: 'Use a shared tool from the Tool Archive.',
-        parameters: {
-          type: Type.OBJECT,
-          properties: {
-            tool_id: { type: Type.STRING },
-            arguments: { type: Type.OBJECT },
-            note: { type: Type.STRING }
-          },
-          required: ['tool_id']
-        }
-      }
-    ];
-
-    const provider = getProviderConfig();
-    let toolCalls: any[] = [];
-    let chosenTool = "Wait";
-
-    if (provider.providerId === 'gemini') {
-      const ai = createAiClient();
-      const response = await ai.models.generateContent({
-        model: FLASH_MODEL,
-        contents: prompt,
-        config: {
-          tools: [{ functionDeclarations: TOOLS }]
-        }
-      });
-
-      const cand = response.candidates?.[0];
-      const fc = cand?.content?.parts?.find(p => p.functionCall);
-      toolCalls = fc ? [fc.functionCall] : [];
-      chosenTool = fc ? fc.functionCall.name : "Wait";
-    } else {
-      const openAiTools: OpenAITool[] = [
-        {
-          type: 'function',
-          function: {
-            name: 'build_structure',
-            description: 'Spawn BuilderAgent to construct a building.',
-            parameters: {
-              type: 'object',
-              properties: {
-                location_id: { type: 'string' },
-                building_type: { type: 'string', enum: ['market', 'farm', 'barracks', 'wall'] },
-                cost_gold: { type: 'number' },
-                cost_grain: { type: 'number' }
-              },
-              required: ['location_id', 'building_type', 'cost_gold', 'cost_grain']
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'simulate_combat',
-            description: 'Spawn TacticianAgent to manage combat.',
-            parameters: {
-              type: 'object',
-              properties: {
-                target_faction_id: { type: 'string' },
-                location_id: { type: 'string' }
-              },
-              required: ['target_faction_id', 'location_id']
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'execute_tool',
-            description: 'Use a shared tool from the Tool Archive.',
-            parameters: {
-              type: 'object',
-              properties: {
-                tool_id: { type: 'string' },
-                arguments: { type: 'object' },
-                note: { type: 'string' }
-              },
-              required: ['tool_id']
-            }
-          }
-        }
-      ];
-
-      const message = await callOpenAIChat({
-        messages: [
-          { role: 'system', content: 'You are a strategic NPC manager in a world simulation.' },
-          { role: 'user', content: prompt }
-        ],
-        tools: openAiTools
-      });
-
-      const parsedToolCalls = parseOpenAIToolCalls(message);
-      toolCalls = parsedToolCalls.map(call => ({ name: call.name, args: call.args }));
-      chosenTool = toolCalls[0]?.name || "Wait";
-    }
+      state.time.epoch
+    );
 
     const trace: DecisionTrace = {
-      decision_trace_id: `trace_${Date.now()}`,
+      decision_trace_id: `trace_${state.time.epoch}_${manager.id}`,
       epoch: state.time.epoch,
       actor: manager.name,
       goal_summary: manager.goals.map(g => g.text),
       retrieved_memories: memories.map(m => ({ id: m.id, text: m.text, strength: m.strength })),
       world_facts_used: [`Day ${state.time.day}`],
-      plan_candidates: [{ plan: "Action", pros: [], cons: [] }],
-      chosen_plan: chosenTool,
+      plan_candidates: turnPlan.plan_candidates,
+      chosen_plan: turnPlan.chosen_plan,
       tool_calls: toolCalls.length ? [{ tool: toolCalls[0].name, inputs: toolCalls[0].args, outputs: null }] : [],
-      world_diff_summary: [],
-      confidence: 0.8
+      rejected_calls: [],
+      world_diff_summary: [], // filled in by the engine once the turn has played out
+      confidence: turnPlan.confidence
     };
 
     return { toolCalls, trace };
@@ -394,26 +271,18 @@ export const runManagerAgent = async (
 export const runHistoryAgent = async (logs: string[]): Promise<string> => {
   return withRetry(async () => {
     const prompt = `Summarize these world events into a single punchy log entry: ${logs.join('; ')}`;
-    const provider = getProviderConfig();
-    if (provider.providerId === 'gemini') {
-      const ai = createAiClient();
-      const response = await ai.models.generateContent({ model: FLASH_MODEL, contents: prompt });
-      return response.text || "Daily events concluded.";
-    }
-
-    const message = await callOpenAIChat({
-      messages: [
-        { role: 'system', content: 'You summarize events succinctly.' },
-        { role: 'user', content: prompt }
-      ]
+    const summary = await getLLMProvider().generateText({
+      agent: 'history',
+      system: 'You summarize events succinctly.',
+      prompt,
+      context: { logs }
     });
-    return message.content || "Daily events concluded.";
+    return summary || "Daily events concluded.";
   });
 };
 
 export const runWorldEventAgent = async (state: WorldState, theme?: ThemeConfig): Promise<{ title: string; summary: string; type: string } | null> => {
   return withRetry(async () => {
-    const provider = getProviderConfig();
     const themeContext = theme ? `${theme.genre} (${theme.tone}) with threats like ${theme.threat}` : 'fantasy world';
     const prompt = `
       You are the world narrator for a strategy simulation.
@@ -422,34 +291,24 @@ export const runWorldEventAgent = async (state: WorldState, theme?: ThemeConfig)
       Output strict JSON: {"title": "...", "summary": "...", "type": "world_event"}.
     `;
 
-    if (provider.providerId === 'gemini') {
-      const ai = createAiClient();
-      const response = await ai.models.generateContent({
-        model: FLASH_MODEL,
-        contents: prompt,
-        config: { responseMimeType: "application/json" }
-      });
-      const data = safeJsonParse(response.text || "{}", {});
-      if (!data.title || !data.summary) return null;
-      return { title: data.title, summary: data.summary, type: data.type || 'world_event' };
-    }
-
-    const message = await callOpenAIChat({
-      messages: [
-        { role: 'system', content: 'You output JSON only.' },
-        { role: 'user', content: prompt }
-      ],
-      responseFormat: { type: 'json_object' }
-    });
-    const data = safeJsonParse(message.content || "{}", {});
-    if (!data.title || !data.summary) return null;
+    const provider = getLLMProvider();
+    const { value: data, errors } = await generateWithRepair('world_event', prompt,
+      p => provider.generateJson({
+        agent: 'world_event',
+        prompt: p,
+        schema: WORLD_EVENT_SCHEMA,
+        context: { state }
+      }),
+      raw => ({ value: raw, errors: validateWorldEvent(raw) }),
+      state.time.epoch
+    );
+    if (errors.length) return null;
     return { title: data.title, summary: data.summary, type: data.type || 'world_event' };
   });
 };
 
 export const runToolEvolutionAgent = async (state: WorldState, toolDb: ToolDB, theme?: ThemeConfig): Promise<AgentTool | null> => {
   return withRetry(async () => {
-    const provider = getProviderConfig();
     const themeContext = theme ? `${theme.genre} (${theme.tone})` : 'fantasy';
     const toolList = describeTools(toolDb);
     const prompt = `
@@ -470,41 +329,36 @@ export const runToolEvolutionAgent = async (state: WorldState, toolDb: ToolDB, t
       }
     `;
 
-    let data: any = null;
-    if (provider.providerId === 'gemini') {
-      const ai = createAiClient();
-      const response = await ai.models.generateContent({
-        model: FLASH_MODEL,
-        contents: prompt,
-        config: { responseMimeType: "application/json" }
-      });
-      data = safeJsonParse(response.text || "{}", null);
-    } else {
-      const message = await callOpenAIChat({
-        messages: [
-          { role: 'system', content: 'You output JSON only.' },
-          { role: 'user', content: prompt }
-        ],
-        responseFormat: { type: 'json_object' }
-      });
-      data = safeJsonParse(message.content || "{}", null);
-    }
-
-    if (!data?.name || !data?.description || !data?.action_guidance) return null;
-    return {
-      id: `tool_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
-      name: data.name,
-      description: data.description,
-      action_guidance: data.action_guidance,
-      parameters: Array.isArray(data.parameters) ? data.parameters.map((param: any) => ({
-        name: param.name,
-        type: param.type,
-        description: param.description
-      })) : [],
-      cooldown_days: Number(data.cooldown_days) || 2,
-      lore: data.lore || '',
-      created_epoch: state.time.epoch
-    } as AgentTool;
+    const provider = getLLMProvider();
+    const { value: tool, errors } = await generateWithRepair('tool_evolution', prompt,
+      p => provider.generateJson({
+        agent: 'tool_evolution',
+        prompt: p,
+        schema: TOOL_EVOLUTION_SCHEMA,
+        context: { toolDb }
+      }),
+      (raw): ValidationResult<AgentTool | null> => {
+        // A null answer means the archive already has what agents need.
+        if (raw === null) return { value: null, errors: [] };
+        const tool = {
+          id: `tool_${state.time.epoch}_${hashString(String(raw?.name)).toString(36)}`,
+          name: raw?.name,
+          description: raw?.description,
+          action_guidance: raw?.action_guidance,
+          parameters: asArray(raw?.parameters).map((param: any) => ({
+            name: param?.name,
+            type: param?.type,
+            description: param?.description || ''
+          })),
+          cooldown_days: Number(raw?.cooldown_days) || 2,
+          lore: raw?.lore || '',
+          created_epoch: state.time.epoch
+        } as AgentTool;
+        return { value: tool, errors: validateAgentTool(tool) };
+      },
+      state.time.epoch
+    );
+    return errors.length ? null : tool;
   });
 };
 
@@ -516,7 +370,6 @@ export const runToolExecutionAgent = async (
   theme?: ThemeConfig
 ): Promise<{ summary: string; calls: { tool: string; args: any }[] } | null> => {
   return withRetry(async () => {
-    const provider = getProviderConfig();
     const themeContext = theme ? `${theme.genre} (${theme.tone})` : 'fantasy';
     const prompt = `
       You are executing a shared action template for a world simulation.
@@ -529,8 +382,8 @@ export const runToolExecutionAgent = async (
       Provided Arguments: ${JSON.stringify(args)}
       Return a concise summary and 1-3 tool calls.
       Allowed tool calls:
-      - build_structure: {location_id, building_type (market|farm|barracks|wall), cost_gold, cost_grain}
-      - simulate_combat: {target_faction_id, location_id}
+      - build_structure: {location_id, building_type (market|farm|workshop|barracks|wall|inn|watchtower)}
+      - raise_army: {location_id, troops}
       - apply_influence: {target_type (faction|location|npc), target_id, field, delta}
       Allowed fields for apply_influence:
       faction: resources.gold, resources.grain, resources.iron, military.troops, military.quality
@@ -540,27 +393,18 @@ export const runToolExecutionAgent = async (
       {"summary":"", "calls":[{"tool":"", "args":{}}]}
     `;
 
-    let data: any = null;
-    if (provider.providerId === 'gemini') {
-      const ai = createAiClient();
-      const response = await ai.models.generateContent({
-        model: FLASH_MODEL,
-        contents: prompt,
-        config: { responseMimeType: "application/json" }
-      });
-      data = safeJsonParse(response.text || "{}", null);
-    } else {
-      const message = await callOpenAIChat({
-        messages: [
-          { role: 'system', content: 'You output JSON only.' },
-          { role: 'user', content: prompt }
-        ],
-        responseFormat: { type: 'json_object' }
-      });
-      data = safeJsonParse(message.content || "{}", null);
-    }
-
-    if (!data?.calls || !Array.isArray(data.calls)) return null;
+    const provider = getLLMProvider();
+    const { value: data, errors } = await generateWithRepair('tool_execution', prompt,
+      p => provider.generateJson({
+        agent: 'tool_execution',
+        prompt: p,
+        schema: TOOL_EXECUTION_SCHEMA,
+        context: { state, manager, tool, args }
+      }),
+      raw => ({ value: raw, errors: validateToolExecution(raw, state) }),
+      state.time.epoch
+    );
+    if (errors.length) return null;
     return {
       summary: data.summary || `${tool.name} executed`,
       calls: data.calls.map((call: any) => ({ tool: call.tool, args: call.args || {} }))
@@ -570,63 +414,26 @@ export const runToolExecutionAgent = async (
 
 export const generateCharacterPortrait = async (npc: NPC, factionName: string, theme?: ThemeConfig): Promise<string | null> => {
   return withRetry(async () => {
-    const provider = getProviderConfig();
-    if (provider.providerId !== 'gemini') return null;
-    const ai = createAiClient();
     const genre = theme?.genre || 'Fantasy';
     const prompt = `A highly detailed character portrait of ${npc.name}, a ${npc.role} of the ${factionName} faction. Setting: ${genre}. Cinematic digital art.`;
-    
-    const response = await ai.models.generateContent({
-      model: IMAGE_MODEL,
-      contents: { parts: [{ text: prompt }] },
-      config: { imageConfig: { aspectRatio: "1:1" } }
-    });
-
-    const parts = response.candidates?.[0]?.content?.parts || [];
-    for (const part of parts) {
-      if (part.inlineData) {
-        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-      }
-    }
-    return null;
+    return getLLMProvider().generateImage(prompt);
   }).catch(() => null);
 };
 
 export const interactWithNPC = async (npc: NPC, factionName: string, history: {role: string, text: string}[], userMessage: string): Promise<string> => {
   return withRetry(async () => {
     const prompt = `You are ${npc.name}, a ${npc.role} in ${factionName}. Respond in character. Concisely.`;
-    const provider = getProviderConfig();
-    if (provider.providerId === 'gemini') {
-      const ai = createAiClient();
-      const chatHistory = history.map(h => ({ role: h.role === 'user' ? 'user' : 'model', parts: [{ text: h.text }] }));
-      const chat = ai.chats.create({ model: FLASH_MODEL, config: { systemInstruction: prompt }, history: chatHistory as any });
-      const result = await chat.sendMessage({ message: userMessage });
-      return result.text || "...";
-    }
-
-    const messages: OpenAIMessage[] = [
-      { role: 'system', content: prompt },
-      ...history.map(h => ({ role: h.role === 'user' ? 'user' : 'assistant', content: h.text })),
-      { role: 'user', content: userMessage }
-    ];
-    const message = await callOpenAIChat({ messages });
-    return message.content || "...";
+    const reply = await getLLMProvider().chat({
+      agent: 'npc_chat',
+      system: prompt,
+      history: history.map(h => ({ role: h.role === 'user' ? 'user' : 'assistant', text: h.text })),
+      message: userMessage,
+      context: { npc }
+    });
+    return reply || "...";
   });
 };
 
 export const generateSpeech = async (text: string, voiceName: string = 'Kore'): Promise<string | null> => {
-  return withRetry(async () => {
-    const provider = getProviderConfig();
-    if (provider.providerId !== 'gemini') return null;
-    const ai = createAiClient();
-    const response = await ai.models.generateContent({
-      model: TTS_MODEL,
-      contents: [{ parts: [{ text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
-      },
-    });
-    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || null;
-  }).catch(() => null);
+  return withRetry(() => getLLMProvider().speak(text, voiceName)).catch(() => null);
 };
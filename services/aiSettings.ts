@@ -1,4 +1,4 @@
-export type ProviderId = 'gemini' | 'openai' | 'grok' | 'lmstudio' | 'litellm' | 'custom';
+export type ProviderId = 'gemini' | 'openai' | 'grok' | 'lmstudio' | 'litellm' | 'custom' | 'mock';
 
 export type ProviderOption = {
   id: ProviderId;
@@ -60,6 +60,14 @@ export const PROVIDER_OPTIONS: ProviderOption[] = [
     defaultModel: 'custom-model',
     supportsResponseFormat: true,
   },
+  {
+    id: 'mock',
+    label: 'Mock (offline, rule-based)',
+    requiresKey: false,
+    defaultBaseUrl: '',
+    defaultModel: 'mock-rules',
+    supportsResponseFormat: true,
+  },
 ];
 
 const PROVIDER_STORAGE_KEY = 'auto_world_provider';
@@ -71,13 +79,19 @@ const isProviderId = (value: string | null): value is ProviderId => {
   return PROVIDER_OPTIONS.some(option => option.id === value);
 };
 
+// Outside the browser (Node scripts, tests) settings live in memory for the process lifetime.
+const memoryStorage = new Map<string, string>();
+
 const readStorage = (key: string) => {
-  if (typeof window === 'undefined') return null;
+  if (typeof window === 'undefined') return memoryStorage.get(key) ?? null;
   return localStorage.getItem(key);
 };
 
 const writeStorage = (key: string, value: string) => {
-  if (typeof window === 'undefined') return;
+  if (typeof window === 'undefined') {
+    memoryStorage.set(key, value);
+    return;
+  }
   localStorage.setItem(key, value);
 };
 
@@ -85,6 +99,9 @@ export const getProviderOption = (providerId: ProviderId) => {
   return PROVIDER_OPTIONS.find(option => option.id === providerId) || PROVIDER_OPTIONS[0];
 };
 
+/** Whether the provider talks to an OpenAI-compatible endpoint that needs a base URL and model. */
+export const requiresEndpoint = (providerId: ProviderId) => providerId !== 'gemini' && providerId !== 'mock';
+
 export const getProviderId = (): ProviderId => {
   const stored = readStorage(PROVIDER_STORAGE_KEY);
   return isProviderId(stored) ? stored : 'gemini';
@@ -106,6 +123,8 @@ export const getProviderConfig = () => {
   };
 };
 
+export type ProviderConfig = ReturnType<typeof getProviderConfig>;
+
 export const setProviderConfig = (config: { providerId: ProviderId; baseUrl?: string; model?: string }) => {
   const option = getProviderOption(config.providerId);
   writeStorage(PROVIDER_STORAGE_KEY, config.providerId);
@@ -0,0 +1,278 @@
+import { WorldState, Army, Location } from '../types';
+import { ARMY_RULES, MOVEMENT_POINTS_PER_DAY } from '../constants';
+import { createRng } from './rng';
+import { findPath, moveCost } from './pathfinding';
+import { applyBattle, computeBattle, computeFieldBattle } from './combat';
+import type { BattleReport } from './combat';
+import { disruptRoutesAt } from './trade';
+import { atWar } from './diplomacy';
+
+type ActionResult = { success: boolean; message: string; updates: Partial<WorldState> | null };
+
+export type CampaignResult = {
+  updates: Partial<WorldState>;
+  battles: BattleReport[];
+  casualties: Record<string, number>; // troops each faction lost in battle today
+  logs: string[];
+};
+
+export const fieldTroops = (state: WorldState, factionId: string) =>
+  (state.armies || []).filter(a => a.faction_id === factionId).reduce((sum, a) => sum + a.troops, 0);
+
+/** Troops in armies away from quarters: marching, camped or besieging. */
+export const campaignTroops = (state: WorldState, factionId: string) =>
+  (state.armies || []).filter(a => a.faction_id === factionId && a.status !== 'garrisoned').reduce((sum, a) => sum + a.troops, 0);
+
+const describePosition = (state: WorldState, army: Army) => {
+  const here = state.map.locations.find(l => l.x === army.x && l.y === army.y);
+  return here ? here.name : `(${army.x}, ${army.y})`;
+};
+
+/** Marching orders back to the faction's closest settlement, or a camp where it stands if none is reachable. */
+const retreat = (state: WorldState, army: Army): Army => {
+  let best: { home: Location; path: { x: number; y: number }[]; days: number } | null = null;
+  state.map.locations
+    .filter(l => l.faction_id === army.faction_id)
+    .forEach(home => {
+      const route = findPath(state, army, home);
+      if (route && (!best || route.days < best.days)) best = { home, path: route.path, days: route.days };
+    });
+  const found = best as { home: Location; path: { x: number; y: number }[]; days: number } | null;
+  if (!found) return { ...army, status: 'camped', location_id: null, destination_location_id: null, path: [], siege_days: 0 };
+  if (found.path.length <= 1) return { ...army, status: 'garrisoned', location_id: found.home.id, destination_location_id: null, path: [], siege_days: 0 };
+  return { ...army, status: 'marching', location_id: null, destination_location_id: found.home.id, path: found.path.slice(1), siege_days: 0 };
+};
+
+/** Marches every army quartered in a settlement its faction no longer holds back home. */
+export const expelGarrisons = (state: WorldState, locationId: string): Army[] => {
+  const location = state.map.locations.find(l => l.id === locationId);
+  return (state.armies || []).map(a => a.status === 'garrisoned' && a.location_id === locationId && a.faction_id !== location?.faction_id
+    ? retreat(state, a)
+    : a);
+};
+
+export const raiseArmy = (
+  state: WorldState,
+  factionId: string,
+  inputs: { location_id: string; troops: number }
+): ActionResult => {
+  const location = state.map.locations.find(l => l.id === inputs.location_id);
+  if (!location) return { success: false, message: 'Location not found', updates: null };
+  if (location.faction_id !== factionId) return { success: false, message: `${location.name} is not ours to muster in`, updates: null };
+  const factionIndex = state.factions.findIndex(f => f.id === factionId);
+  const faction = state.factions[factionIndex];
+  if (!faction) return { success: false, message: 'Faction not found', updates: null };
+  const troops = Math.min(Math.round(Number(inputs.troops) || 0), faction.military.troops);
+  if (troops < ARMY_RULES.min_troops) {
+    return { success: false, message: `Not enough reserves to raise an army (need ${ARMY_RULES.min_troops}, have ${faction.military.troops})`, updates: null };
+  }
+
+  const rng = createRng(state.rng);
+  const army: Army = {
+    id: rng.id(`army_${state.time.epoch}`),
+    name: `${location.name} Host`,
+    faction_id: factionId,
+    troops,
+    x: location.x,
+    y: location.y,
+    location_id: location.id,
+    destination_location_id: null,
+    path: [],
+    status: 'garrisoned',
+    siege_days: 0,
+    raised_epoch: state.time.epoch
+  };
+  const newFactions = [...state.factions];
+  newFactions[factionIndex] = { ...faction, military: { ...faction.military, troops: faction.military.troops - troops } };
+  return {
+    success: true,
+    message: `Raised the ${army.name} (${troops} troops)`,
+    updates: { armies: [...(state.armies || []), army], factions: newFactions, rng: rng.snapshot() }
+  };
+};
+
+export const moveArmy = (
+  state: WorldState,
+  factionId: string,
+  inputs: { army_id: string; location_id: string }
+): ActionResult => {
+  const armyIndex = (state.armies || []).findIndex(a => a.id === inputs.army_id);
+  const army = state.armies?.[armyIndex];
+  if (!army) return { success: false, message: 'Army not found', updates: null };
+  if (army.faction_id !== factionId) return { success: false, message: `${army.name} does not answer to us`, updates: null };
+  const destination = state.map.locations.find(l => l.id === inputs.location_id);
+  if (!destination) return { success: false, message: 'Location not found', updates: null };
+  if (army.x === destination.x && army.y === destination.y) return { success: false, message: `${army.name} is already at ${destination.name}`, updates: null };
+  if (destination.faction_id && destination.faction_id !== factionId && !atWar(state, factionId, destination.faction_id)) {
+    const owner = state.factions.find(f => f.id === destination.faction_id);
+    return { success: false, message: `We are not at war with ${owner?.name || 'the holders'} of ${destination.name}`, updates: null };
+  }
+
+  const route = findPath(state, army, destination);
+  if (!route) return { success: false, message: `No overland path to ${destination.name}`, updates: null };
+
+  const armies = [...state.armies];
+  armies[armyIndex] = { ...army, status: 'marching', location_id: null, destination_location_id: destination.id, path: route.path.slice(1), siege_days: 0 };
+  return {
+    success: true,
+    message: `${army.name} marches on ${destination.name} (${Math.max(1, route.days)} days)`,
+    updates: { armies }
+  };
+};
+
+export const disbandArmy = (
+  state: WorldState,
+  factionId: string,
+  inputs: { army_id: string }
+): ActionResult => {
+  const army = (state.armies || []).find(a => a.id === inputs.army_id);
+  if (!army) return { success: false, message: 'Army not found', updates: null };
+  if (army.faction_id !== factionId) return { success: false, message: `${army.name} does not answer to us`, updates: null };
+  return {
+    success: true,
+    message: `${army.name} stood down; ${army.troops} troops return to the reserve`,
+    updates: {
+      armies: state.armies.filter(a => a.id !== army.id),
+      factions: state.factions.map(f => f.id === factionId ? { ...f, military: { ...f.military, troops: f.military.troops + army.troops } } : f)
+    }
+  };
+};
+
+/**
+ * One day of campaigning. Marching armies spend their movement points along their path
+ * and, on arrival, quarter in friendly settlements, occupy empty ones or besiege those of
+ * an enemy they are at war with.
+ * Field armies at war whose tracks for the day come within `intercept_range` fight in the
+ * open and the loser falls back home. Besiegers wear down `Location.defense` and storm the walls once
+ * they are breached or `assault_after_days` have passed. Routes through a siege are cut.
+ */
+export const advanceArmies = (state: WorldState): CampaignResult => {
+  if (!state.armies?.length) return { updates: {}, battles: [], casualties: {}, logs: [] };
+  const rng = createRng(state.rng);
+  const logs: string[] = [];
+  const battles: BattleReport[] = [];
+  const casualties: Record<string, number> = {};
+  const bury = (factionId: string, dead: number) => { if (dead > 0) casualties[factionId] = (casualties[factionId] || 0) + dead; };
+  const { width } = state.map;
+  const factionName = (id: string) => state.factions.find(f => f.id === id)?.name || id;
+  let working: WorldState = state;
+
+  // March
+  const tracks = new Map<string, { x: number; y: number }[]>();
+  let locations = [...working.map.locations];
+  let armies = working.armies.map((army): Army => {
+    const track = [{ x: army.x, y: army.y }];
+    tracks.set(army.id, track);
+    if (army.status !== 'marching') return army;
+    let budget = MOVEMENT_POINTS_PER_DAY;
+    let position = { x: army.x, y: army.y };
+    const path = [...army.path];
+    let moved = false;
+    while (path.length) {
+      const tile = state.map.tiles[path[0].y * width + path[0].x];
+      const cost = tile ? moveCost(tile.terrain) : Infinity;
+      if (cost === Infinity || (moved && cost > budget)) break;
+      budget -= cost;
+      position = path.shift()!;
+      track.push(position);
+      moved = true;
+    }
+    const marched = { ...army, x: position.x, y: position.y, path };
+    if (path.length) return moved ? marched : retreat(working, marched);
+
+    const destination = locations.find(l => l.id === army.destination_location_id);
+    if (!destination || destination.x !== marched.x || destination.y !== marched.y) {
+      return { ...marched, status: 'camped', destination_location_id: null };
+    }
+    if (destination.faction_id === army.faction_id) {
+      return { ...marched, status: 'garrisoned', location_id: destination.id, destination_location_id: null };
+    }
+    if (!destination.faction_id) {
+      locations = locations.map(l => l.id === destination.id ? { ...l, faction_id: army.faction_id, occupied_since: state.time.epoch } : l);
+      logs.push(`${army.name} occupied ${destination.name} for ${factionName(army.faction_id)}`);
+      return { ...marched, status: 'garrisoned', location_id: destination.id, destination_location_id: null };
+    }
+    if (!atWar(working, army.faction_id, destination.faction_id)) {
+      logs.push(`${army.name} halted outside ${destination.name}; there is no war to fight`);
+      return { ...marched, status: 'camped', destination_location_id: null };
+    }
+    logs.push(`${army.name} laid siege to ${destination.name}`);
+    return { ...marched, status: 'besieging', location_id: destination.id, destination_location_id: null, siege_days: 0 };
+  });
+  working = { ...working, armies, map: { ...working.map, locations } };
+
+  // Interceptions
+  const crossed = (a: Army, b: Army) => (tracks.get(a.id) || [a]).some(p => (tracks.get(b.id) || [b])
+    .some(q => Math.max(Math.abs(p.x - q.x), Math.abs(p.y - q.y)) <= ARMY_RULES.intercept_range));
+  const fought = new Set<string>();
+  for (let i = 0; i < armies.length; i++) {
+    for (let j = i + 1; j < armies.length; j++) {
+      const a = armies[i];
+      const b = armies[j];
+      if (fought.has(a.id) || fought.has(b.id) || a.status === 'garrisoned' || b.status === 'garrisoned') continue;
+      if (!atWar(working, a.faction_id, b.faction_id) || !crossed(a, b)) continue;
+      const report = computeFieldBattle(working, a, b, rng);
+      armies = armies.map(army => {
+        if (army.id !== a.id && army.id !== b.id) return army;
+        const bloodied = { ...army, troops: Math.max(0, army.troops - (report.casualties[army.id] || 0)) };
+        return army.id === report.loser_army_id ? retreat(working, bloodied) : bloodied;
+      });
+      bury(a.faction_id, report.casualties[a.id] || 0);
+      bury(b.faction_id, report.casualties[b.id] || 0);
+      const winner = a.id === report.winner_army_id ? a : b;
+      logs.push(`${a.name} and ${b.name} clashed near ${describePosition(working, b)}; the ${winner.name} carried the field (losses ${report.casualties[a.id]}v${report.casualties[b.id]})`);
+      fought.add(a.id);
+      fought.add(b.id);
+      working = { ...working, armies };
+    }
+  }
+
+  // Sieges
+  for (const besieger of armies.filter(a => a.status === 'besieging')) {
+    const army = working.armies.find(a => a.id === besieger.id);
+    if (!army || army.status !== 'besieging') continue;
+    const target = working.map.locations.find(l => l.id === army.location_id);
+    if (!target || target.faction_id === army.faction_id) {
+      working = { ...working, armies: working.armies.map(a => a.id === army.id ? (target ? { ...a, status: 'garrisoned' as const } : retreat(working, a)) : a) };
+      continue;
+    }
+    if (!atWar(working, army.faction_id, target.faction_id)) {
+      logs.push(`${army.name} lifted the siege of ${target.name}`);
+      working = { ...working, armies: working.armies.map(a => a.id === army.id ? retreat(working, a) : a) };
+      continue;
+    }
+    const quality = working.factions.find(f => f.id === army.faction_id)?.military.quality ?? 1;
+    const defense = Math.max(0, target.defense - Math.round(army.troops * quality * ARMY_RULES.bombard_rate));
+    const siegeDays = army.siege_days + 1;
+    working = {
+      ...working,
+      armies: working.armies.map(a => a.id === army.id ? { ...a, siege_days: siegeDays } : a),
+      map: { ...working.map, locations: working.map.locations.map(l => l.id === target.id ? { ...l, defense } : l) }
+    };
+    working = { ...working, ...disruptRoutesAt(working, target.id) };
+    if (defense > 0 && siegeDays < ARMY_RULES.assault_after_days) continue;
+
+    const report = computeBattle(working, { faction_id: army.faction_id, army_id: army.id, troops: army.troops, origin: null, march_days: 0 }, target.id, rng);
+    if (!report) continue;
+    battles.push(report);
+    bury(report.attacker_faction_id, report.attacker_casualties);
+    bury(report.defender_faction_id, report.defender_casualties);
+    working = { ...working, ...applyBattle(working, report) };
+    // Whatever survived of the garrison falls back to another of its settlements.
+    if (report.location_conquered) working = { ...working, armies: expelGarrisons(working, target.id) };
+  }
+
+  const broken = working.armies.filter(a => a.troops < ARMY_RULES.min_troops);
+  broken.forEach(a => logs.push(`${a.name} broke up with ${a.troops} troops left`));
+  return {
+    updates: {
+      armies: working.armies.filter(a => a.troops >= ARMY_RULES.min_troops),
+      factions: working.factions,
+      map: working.map,
+      rng: rng.snapshot()
+    },
+    battles,
+    casualties,
+    logs
+  };
+};
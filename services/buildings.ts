@@ -0,0 +1,177 @@
+import { WorldState, Building, BuildingType, Location } from '../types';
+import { BUILDING_CATALOG, BUILDING_RULES } from '../constants';
+import { createRng } from './rng';
+
+type ActionResult = { success: boolean; message: string; updates: Partial<WorldState> | null };
+
+type Cost = { gold: number; grain: number; iron: number };
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const isBuildingType = (type: any): type is BuildingType => typeof type === 'string' && Object.prototype.hasOwnProperty.call(BUILDING_CATALOG, type);
+
+/**
+ * Working levels of a building type in a settlement. A building under construction or
+ * upgrade still works at the level it had before; damaged buildings count for half.
+ */
+export const buildingLevels = (location: Location, type: BuildingType) => (location.buildings || [])
+  .filter(b => b.type === type)
+  .reduce((sum, b) => sum + (b.status === 'building' ? b.level - 1 : b.level) * (b.status === 'damaged' ? 0.5 : 1), 0);
+
+/** How many buildings a settlement has room for; bigger settlements fit more. */
+export const buildingSlots = (location: Pick<Location, 'population'>) =>
+  BUILDING_RULES.base_slots + Math.floor(Math.max(0, location.population) / BUILDING_RULES.population_per_slot);
+
+/** Cost of building a type up to `level`; each level costs more than the last. */
+export const buildCost = (type: BuildingType, level: number): Cost => {
+  const { cost } = BUILDING_CATALOG[type];
+  return { gold: cost.gold * level, grain: cost.grain * level, iron: cost.iron * level };
+};
+
+export const repairCost = (building: Building): Cost => {
+  const cost = buildCost(building.type, building.level);
+  return {
+    gold: Math.ceil(cost.gold * BUILDING_RULES.repair_share),
+    grain: Math.ceil(cost.grain * BUILDING_RULES.repair_share),
+    iron: Math.ceil(cost.iron * BUILDING_RULES.repair_share)
+  };
+};
+
+const describeCost = (cost: Cost) => `${cost.gold}G/${cost.grain}Gr/${cost.iron}Fe`;
+
+/** Finds a building held by the faction, with the settlement it stands in. */
+const locateBuilding = (state: WorldState, factionId: string, buildingId: string) => {
+  const location = state.map.locations.find(l => (l.buildings || []).some(b => b.id === buildingId));
+  if (!location) return { error: 'Building not found' };
+  if (location.faction_id !== factionId) return { error: `${location.name} is not ours` };
+  return { location, building: location.buildings.find(b => b.id === buildingId)! };
+};
+
+/** Pays for works out of the faction treasury and puts the changed building back in place. */
+const commission = (state: WorldState, factionId: string, location: Location, buildings: Building[], cost: Cost): Partial<WorldState> | string => {
+  const factionIndex = state.factions.findIndex(f => f.id === factionId);
+  const faction = state.factions[factionIndex];
+  if (!faction) return 'Faction not found';
+  if (faction.resources.gold < cost.gold || faction.resources.grain < cost.grain || faction.resources.iron < cost.iron) {
+    return `Insufficient resources. Needed: ${describeCost(cost)}`;
+  }
+  const newFactions = [...state.factions];
+  newFactions[factionIndex] = {
+    ...faction,
+    resources: {
+      gold: faction.resources.gold - cost.gold,
+      grain: faction.resources.grain - cost.grain,
+      iron: faction.resources.iron - cost.iron
+    }
+  };
+  const locations = state.map.locations.map(l => l.id === location.id ? { ...l, buildings } : l);
+  return { factions: newFactions, map: { ...state.map, locations } };
+};
+
+/** Lays the foundations of a new level 1 building; it starts working once construction finishes. */
+export const buildStructure = (
+  state: WorldState,
+  factionId: string,
+  inputs: { location_id: string; building_type: string },
+  ownerId: string
+): ActionResult => {
+  const location = state.map.locations.find(l => l.id === inputs.location_id);
+  if (!location) return { success: false, message: 'Location not found', updates: null };
+  if (location.faction_id !== factionId) return { success: false, message: `${location.name} is not ours to build in`, updates: null };
+  if (!isBuildingType(inputs.building_type)) return { success: false, message: `Unknown building type ${inputs.building_type}`, updates: null };
+  if ((location.buildings || []).length >= buildingSlots(location)) {
+    return { success: false, message: `${location.name} has no room for another building (${buildingSlots(location)} slots)`, updates: null };
+  }
+
+  const rng = createRng(state.rng);
+  const entry = BUILDING_CATALOG[inputs.building_type];
+  const building: Building = {
+    id: rng.id(`bld_${state.time.epoch}`),
+    type: inputs.building_type,
+    level: 1,
+    owner_npc_id: ownerId,
+    status: 'building',
+    build_days_left: entry.build_days
+  };
+  const updates = commission(state, factionId, location, [...(location.buildings || []), building], buildCost(building.type, 1));
+  if (typeof updates === 'string') return { success: false, message: updates, updates: null };
+  return {
+    success: true,
+    message: `Began building a ${entry.name.toLowerCase()} in ${location.name} (${entry.build_days} days)`,
+    updates: { ...updates, rng: rng.snapshot() }
+  };
+};
+
+/** Raises a working building one level; it keeps working at its old level while the work goes on. */
+export const upgradeStructure = (state: WorldState, factionId: string, inputs: { building_id: string }): ActionResult => {
+  const found = locateBuilding(state, factionId, inputs.building_id);
+  if ('error' in found) return { success: false, message: found.error!, updates: null };
+  const { location, building } = found;
+  const entry = BUILDING_CATALOG[building.type];
+  if (building.status !== 'active') return { success: false, message: `The ${entry.name.toLowerCase()} in ${location.name} is ${building.status}`, updates: null };
+  if (building.level >= entry.max_level) return { success: false, message: `The ${entry.name.toLowerCase()} in ${location.name} is already at level ${entry.max_level}`, updates: null };
+
+  const upgraded: Building = { ...building, level: building.level + 1, status: 'building', build_days_left: entry.build_days };
+  const buildings = location.buildings.map(b => b.id === building.id ? upgraded : b);
+  const updates = commission(state, factionId, location, buildings, buildCost(building.type, upgraded.level));
+  if (typeof updates === 'string') return { success: false, message: updates, updates: null };
+  return {
+    success: true,
+    message: `Began raising the ${entry.name.toLowerCase()} in ${location.name} to level ${upgraded.level} (${entry.build_days} days)`,
+    updates
+  };
+};
+
+/** Mends a damaged building at once, for a share of what its level cost to build. */
+export const repairStructure = (state: WorldState, factionId: string, inputs: { building_id: string }): ActionResult => {
+  const found = locateBuilding(state, factionId, inputs.building_id);
+  if ('error' in found) return { success: false, message: found.error!, updates: null };
+  const { location, building } = found;
+  const entry = BUILDING_CATALOG[building.type];
+  if (building.status !== 'damaged') return { success: false, message: `The ${entry.name.toLowerCase()} in ${location.name} is not damaged`, updates: null };
+
+  const buildings = location.buildings.map(b => b.id === building.id ? { ...b, status: 'active' as const } : b);
+  const updates = commission(state, factionId, location, buildings, repairCost(building));
+  if (typeof updates === 'string') return { success: false, message: updates, updates: null };
+  return { success: true, message: `Repaired the ${entry.name.toLowerCase()} in ${location.name}`, updates };
+};
+
+/**
+ * Applies battle damage to a settlement's buildings: a standing building is damaged, and
+ * one already damaged loses a level, collapsing altogether at level 0.
+ */
+export const damageBuildings = (buildings: Building[], damagedIds: string[]): Building[] => buildings
+  .map(b => {
+    if (!damagedIds.includes(b.id)) return b;
+    return b.status === 'damaged' ? { ...b, level: b.level - 1 } : { ...b, status: 'damaged' as const };
+  })
+  .filter(b => b.level > 0);
+
+/**
+ * One day of work everywhere. Construction and upgrades count down and, once finished,
+ * lift the settlement's prosperity by the catalog amount. Barracks train residents into
+ * their faction's reserve.
+ */
+export const advanceBuildings = (state: WorldState): Partial<WorldState> => {
+  const recruits: Record<string, number> = {};
+  const locations = state.map.locations.map(location => {
+    if (!(location.buildings || []).length) return location;
+    let prosperity = location.prosperity;
+    const buildings = location.buildings.map(b => {
+      if (b.status !== 'building') return b;
+      const left = Math.max(0, (b.build_days_left || 0) - 1);
+      if (left > 0) return { ...b, build_days_left: left };
+      prosperity += BUILDING_CATALOG[b.type]?.prosperity || 0;
+      return { ...b, status: 'active' as const, build_days_left: 0 };
+    });
+    const trained = location.faction_id
+      ? Math.min(Math.max(0, location.population), Math.floor(buildingLevels(location, 'barracks') * BUILDING_RULES.barracks_recruits))
+      : 0;
+    if (trained > 0) recruits[location.faction_id!] = (recruits[location.faction_id!] || 0) + trained;
+    return { ...location, buildings, prosperity: clamp(prosperity, 0, 100), population: location.population - trained };
+  });
+  const factions = state.factions.map(f => recruits[f.id]
+    ? { ...f, military: { ...f.military, troops: f.military.troops + recruits[f.id] } }
+    : f);
+  return { map: { ...state.map, locations }, factions };
+};
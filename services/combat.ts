@@ -0,0 +1,175 @@
+import { WorldState, Location, Army } from '../types';
+import { BUILDING_RULES, COMBAT_RULES } from '../constants';
+import type { Rng } from './rng';
+import { buildingLevels, damageBuildings } from './buildings';
+
+export type Assault = {
+  faction_id: string;
+  army_id: string | null;
+  troops: number;
+  origin: Location | null; // where the attackers mustered, for the barracks bonus
+  march_days: number;
+};
+
+export type BattleReport = {
+  attacker_faction_id: string;
+  attacker_army_id: string | null;
+  defender_faction_id: string;
+  location_id: string;
+  march_days: number;
+  attacker_troops: number;
+  defender_troops: number;
+  defender_reserve_troops: number;
+  attacker_strength: number;
+  defender_strength: number;
+  attacker_casualties: number;
+  defender_casualties: number;
+  location_conquered: boolean;
+  defense_damage: number;
+  unrest_change: number;
+  damaged_building_ids: string[];
+};
+
+export type FieldBattleReport = {
+  x: number;
+  y: number;
+  winner_army_id: string;
+  loser_army_id: string;
+  casualties: Record<string, number>; // by army id
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const round2 = (value: number) => parseFloat(value.toFixed(2));
+
+const groundBonus = (state: WorldState, x: number, y: number) => {
+  const tile = state.map.tiles.find(t => t.x === x && t.y === y);
+  return (tile ? COMBAT_RULES.terrain_bonus[tile.terrain] ?? 1 : 1) * (tile?.river ? COMBAT_RULES.river_bonus : 1);
+};
+
+const quality = (state: WorldState, factionId: string) => state.factions.find(f => f.id === factionId)?.military.quality ?? 1;
+
+const losses = (troops: number, ratio: number) => Math.min(troops, Math.round(troops * COMBAT_RULES.base_losses * clamp(ratio, 0.2, 3)));
+
+/**
+ * Works out an assault on a settlement from the numbers alone. The attackers tire on the
+ * march; the defender fields its share of reserve troops per settlement held plus any of
+ * its armies quartered there, backed by defenses, walls, barracks and the ground. Each
+ * side rolls a little luck from the world's seeded stream, and the harder the assault the
+ * more buildings it wrecks. Returns null when the fight cannot happen.
+ */
+export const computeBattle = (state: WorldState, attack: Assault, locationId: string, rng: Rng): BattleReport | null => {
+  const attacker = state.factions.find(f => f.id === attack.faction_id);
+  const location = state.map.locations.find(l => l.id === locationId);
+  const defender = location?.faction_id ? state.factions.find(f => f.id === location.faction_id) : undefined;
+  if (!attacker || !location || !defender || attacker.id === defender.id || attack.troops <= 0) return null;
+
+  const held = state.map.locations.filter(l => l.faction_id === defender.id).length;
+  const reserve = Math.ceil(defender.military.troops / Math.max(1, held));
+  const garrison = (state.armies || [])
+    .filter(a => a.faction_id === defender.id && a.status === 'garrisoned' && a.location_id === location.id)
+    .reduce((sum, a) => sum + a.troops, 0);
+  const defenderTroops = reserve + garrison;
+
+  const fatigue = Math.max(COMBAT_RULES.min_fatigue, 1 - attack.march_days * COMBAT_RULES.march_fatigue);
+  const attackerStrength = attack.troops * attacker.military.quality * fatigue
+    * (1 + (attack.origin ? buildingLevels(attack.origin, 'barracks') : 0) * COMBAT_RULES.barracks_bonus)
+    * (1 + rng.range(-COMBAT_RULES.luck, COMBAT_RULES.luck));
+  const fortification = 1
+    + location.defense * COMBAT_RULES.defense_weight
+    + buildingLevels(location, 'wall') * COMBAT_RULES.wall_bonus
+    + buildingLevels(location, 'barracks') * COMBAT_RULES.barracks_bonus;
+  const defenderStrength = defenderTroops * defender.military.quality * fortification * groundBonus(state, location.x, location.y)
+    * (1 + rng.range(-COMBAT_RULES.luck, COMBAT_RULES.luck));
+
+  const ratio = attackerStrength / Math.max(1, defenderStrength);
+  const conquered = ratio >= COMBAT_RULES.conquest_ratio;
+  return {
+    attacker_faction_id: attacker.id,
+    attacker_army_id: attack.army_id,
+    defender_faction_id: defender.id,
+    location_id: location.id,
+    march_days: attack.march_days,
+    attacker_troops: attack.troops,
+    defender_troops: defenderTroops,
+    defender_reserve_troops: reserve,
+    attacker_strength: round2(attackerStrength),
+    defender_strength: round2(defenderStrength),
+    attacker_casualties: losses(attack.troops, 1 / Math.max(ratio, 0.01)),
+    defender_casualties: losses(defenderTroops, ratio),
+    location_conquered: conquered,
+    defense_damage: conquered ? COMBAT_RULES.conquest_defense_loss : Math.round(10 * clamp(ratio, 0, 2)),
+    unrest_change: conquered ? 100 : Math.round(10 + 10 * clamp(ratio, 0, 2)),
+    damaged_building_ids: (location.buildings || [])
+      .filter(b => b.status !== 'building' && rng.chance(BUILDING_RULES.damage_chance * clamp(ratio, 0.5, 2)))
+      .map(b => b.id)
+  };
+};
+
+/** Two armies meeting in the open: no walls, but the ground still favours whoever stands on it. */
+export const computeFieldBattle = (state: WorldState, a: Army, b: Army, rng: Rng): FieldBattleReport => {
+  const strength = (army: Army) => army.troops * quality(state, army.faction_id) * groundBonus(state, army.x, army.y)
+    * (1 + rng.range(-COMBAT_RULES.luck, COMBAT_RULES.luck));
+  const strengthA = strength(a);
+  const strengthB = strength(b);
+  const ratio = strengthA / Math.max(1, strengthB);
+  return {
+    x: b.x,
+    y: b.y,
+    winner_army_id: strengthA >= strengthB ? a.id : b.id,
+    loser_army_id: strengthA >= strengthB ? b.id : a.id,
+    casualties: { [a.id]: losses(a.troops, 1 / Math.max(ratio, 0.01)), [b.id]: losses(b.troops, ratio) }
+  };
+};
+
+/**
+ * Applies an assault: attacker losses come out of the attacking army (or the faction's
+ * reserve for a levy), defender losses are split between the reserve share and the
+ * quartered armies. Buildings hit in the fighting are damaged. A conquered settlement
+ * changes hands and the attacking army moves in.
+ */
+export const applyBattle = (state: WorldState, report: BattleReport): Partial<WorldState> => {
+  const garrisonTroops = report.defender_troops - report.defender_reserve_troops;
+  const garrisonLosses = report.defender_troops ? Math.round(report.defender_casualties * garrisonTroops / report.defender_troops) : 0;
+  const reserveLosses = report.defender_casualties - garrisonLosses;
+
+  const factions = state.factions.map(f => {
+    const lost = f.id === report.defender_faction_id ? reserveLosses
+      : f.id === report.attacker_faction_id && !report.attacker_army_id ? report.attacker_casualties
+      : 0;
+    return lost ? { ...f, military: { ...f.military, troops: Math.max(0, f.military.troops - lost) } } : f;
+  });
+
+  const armies = (state.armies || []).map((army): Army => {
+    if (army.id === report.attacker_army_id) {
+      const troops = Math.max(0, army.troops - report.attacker_casualties);
+      return report.location_conquered
+        ? { ...army, troops, status: 'garrisoned', location_id: report.location_id, destination_location_id: null, path: [], siege_days: 0 }
+        : { ...army, troops, siege_days: 0 };
+    }
+    if (army.faction_id === report.defender_faction_id && army.status === 'garrisoned' && army.location_id === report.location_id && garrisonTroops > 0) {
+      return { ...army, troops: Math.max(0, army.troops - Math.round(garrisonLosses * army.troops / garrisonTroops)) };
+    }
+    return army;
+  });
+
+  const locations = state.map.locations.map(l => {
+    if (l.id !== report.location_id) return l;
+    const defense = Math.max(0, l.defense - report.defense_damage);
+    const buildings = damageBuildings(l.buildings || [], report.damaged_building_ids || []);
+    return report.location_conquered
+      ? { ...l, faction_id: report.attacker_faction_id, defense, buildings, unrest: 100, occupied_since: state.time.epoch }
+      : { ...l, defense, buildings, unrest: Math.min(100, l.unrest + report.unrest_change) };
+  });
+  return { factions, armies, map: { ...state.map, locations } };
+};
+
+/** Plain account of a battle, used whenever no narration is available. */
+export const describeBattle = (state: WorldState, report: BattleReport) => {
+  const name = (id: string) => state.factions.find(f => f.id === id)?.name || id;
+  const place = state.map.locations.find(l => l.id === report.location_id)?.name || report.location_id;
+  const result = report.location_conquered
+    ? `${name(report.attacker_faction_id)} took ${place} from ${name(report.defender_faction_id)}`
+    : `${name(report.defender_faction_id)} held ${place} against ${name(report.attacker_faction_id)}`;
+  return `${result}${report.march_days ? ` after a ${report.march_days}-day march` : ''}.`;
+};
@@ -0,0 +1,197 @@
+import { WorldState, Faction, Location, NPC, EventLogEntry } from '../types';
+import { BUILDING_RULES, DEMOGRAPHY_RULES } from '../constants';
+import { createRng } from './rng';
+import type { Rng } from './rng';
+import { stockTarget } from './markets';
+import { factionReachDays } from './pathfinding';
+import { atWar, initialRelationships, setStance, updateRelation } from './diplomacy';
+import { expelGarrisons } from './armies';
+import { addMemoryToNPC } from './memoryService';
+import { buildingLevels } from './buildings';
+
+const REBEL_EPITHETS = ['The Firebrand', 'The Bellringer', 'The Red Reeve', 'The Unbowed', 'The Lantern'];
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const round2 = (value: number) => parseFloat(value.toFixed(2));
+
+/** Whole people from a fractional amount: the remainder becomes one more person by chance. */
+const people = (amount: number, rng: Rng) => {
+  const whole = Math.floor(Math.max(0, amount));
+  return whole + (rng.chance(amount - whole) ? 1 : 0);
+};
+
+/** Residents move along active trade routes from the poorer end to the richer one, unless the two sides are at war. */
+const migration = (state: WorldState): Record<string, number> => {
+  const moves: Record<string, number> = {};
+  state.map.routes.filter(r => r.status === 'active').forEach(route => {
+    const a = state.map.locations.find(l => l.id === route.from_location_id);
+    const b = state.map.locations.find(l => l.id === route.to_location_id);
+    if (!a || !b || atWar(state, a.faction_id, b.faction_id)) return;
+    const [from, to] = a.prosperity < b.prosperity ? [a, b] : [b, a];
+    const gap = to.prosperity - from.prosperity;
+    if (gap < DEMOGRAPHY_RULES.migration_gap) return;
+    const migrants = Math.floor(Math.max(0, from.population) * DEMOGRAPHY_RULES.migration_rate * gap / 10);
+    moves[from.id] = (moves[from.id] || 0) - migrants;
+    moves[to.id] = (moves[to.id] || 0) + migrants;
+  });
+  return moves;
+};
+
+/**
+ * A settlement rises against its ruler. It joins the nearest other faction when one is within
+ * reach and the dice say so; otherwise it proclaims itself free under a leader of its own,
+ * at war with its former masters. Garrisons of the old ruler march home either way.
+ */
+const rebel = (state: WorldState, location: Location, rng: Rng): { state: WorldState; event: EventLogEntry } => {
+  const formerId = location.faction_id!;
+  const former = state.factions.find(f => f.id === formerId);
+  const neighbour = state.factions
+    .filter(f => f.id !== formerId)
+    .map(f => ({ faction: f, days: factionReachDays(state, f.id, location.id) }))
+    .filter((n): n is { faction: Faction; days: number } => n.days !== null)
+    .sort((a, b) => a.days - b.days)[0];
+  const settled = { unrest: DEMOGRAPHY_RULES.rebel_unrest, unrest_days: 0, occupied_since: null };
+  const event = (title: string, summary: string, factionId: string): EventLogEntry => ({
+    id: `evt_rebellion_${state.time.epoch}_${location.id}`,
+    epoch: state.time.epoch,
+    type: 'rebellion',
+    title,
+    summary,
+    impact: { location_id: location.id, from_faction_id: formerId, to_faction_id: factionId },
+    decision_trace_id: null
+  });
+
+  let next: WorldState;
+  if (neighbour && rng.chance(DEMOGRAPHY_RULES.defect_chance)) {
+    const locations = state.map.locations.map(l => l.id === location.id ? { ...l, ...settled, faction_id: neighbour.faction.id } : l);
+    next = { ...state, map: { ...state.map, locations }, factions: updateRelation(state.factions, formerId, neighbour.faction.id, r => ({ score: r.score - DEMOGRAPHY_RULES.defect_score })) };
+    next = { ...next, armies: expelGarrisons(next, location.id) };
+    return {
+      state: next,
+      event: event(`${location.name} Defects`, `Fed up with the ${former?.name}, ${location.name} threw open its gates to the ${neighbour.faction.name}.`, neighbour.faction.id)
+    };
+  }
+
+  const levy = Math.floor(Math.max(0, location.population) * DEMOGRAPHY_RULES.rebel_levy);
+  const factionId = rng.id('fac_rebel');
+  const leaderId = rng.id('npc_rebel');
+  const faction: Faction = {
+    id: factionId,
+    name: `Free ${location.name}`,
+    archetype: 'chaos',
+    ideology: `${location.name} answers to no one.`,
+    leader_npc_id: leaderId,
+    resources: { gold: DEMOGRAPHY_RULES.rebel_gold, grain: DEMOGRAPHY_RULES.rebel_grain, iron: 0 },
+    military: { troops: levy, quality: 0.8 },
+    relationships: [],
+    laws: [],
+    ledger: [],
+    reputation: 50
+  };
+  faction.relationships = initialRelationships([...state.factions, faction], faction);
+  const leader: NPC = addMemoryToNPC({
+    id: leaderId,
+    name: `${rng.pick(REBEL_EPITHETS)} of ${location.name}`,
+    role: 'Leader',
+    faction_id: factionId,
+    traits: ['defiant'],
+    goals: [{ id: `goal_${leaderId}`, text: `Keep ${location.name} free of the ${former?.name || 'old rulers'}`, priority: 3 }],
+    resources: { gold: 20, influence: 20 },
+    relationships: [],
+    memory: [],
+    location_id: location.id,
+    status: 'idle',
+    last_turn_epoch: -1
+  }, `I led ${location.name} in rising against the ${former?.name || 'old rulers'}.`, state.time.epoch, ['rebellion']);
+
+  const locations = state.map.locations.map(l => l.id === location.id
+    ? { ...l, ...settled, faction_id: factionId, population: l.population - levy }
+    : l);
+  let factions = setStance([
+    ...state.factions.map(f => ({ ...f, relationships: [...f.relationships, ...initialRelationships([faction], f)] })),
+    faction
+  ], formerId, factionId, 'hostile');
+  factions = updateRelation(factions, formerId, factionId, () => ({ score: DEMOGRAPHY_RULES.rebel_score }));
+  factions = updateRelation(factions, factionId, formerId, () => ({ score: DEMOGRAPHY_RULES.rebel_score }));
+  next = {
+    ...state,
+    map: { ...state.map, locations },
+    factions,
+    npcs: [...state.npcs, leader]
+  };
+  next = { ...next, armies: expelGarrisons(next, location.id) };
+  return {
+    state: next,
+    event: event(`${location.name} Rises`, `${leader.name} raised ${levy} rebels and declared ${location.name} free of the ${former?.name}.`, factionId)
+  };
+};
+
+/**
+ * One day in the life of every settlement. Fed towns grow with their prosperity; famine
+ * and sieges kill. Residents drift along trade routes towards richer towns. Shortages and
+ * occupation stoke unrest, while full granaries, garrisons and inns calm it. A settlement
+ * that stays above `rebellion_unrest` for `rebellion_days` rebels unless its garrison is
+ * strong enough to hold it down. Taxes and laws add their own unrest through the law system.
+ */
+export const simulatePopulation = (state: WorldState): Partial<WorldState> => {
+  if (!state.map.locations.length) return {};
+  const rng = createRng(state.rng);
+  const moves = migration(state);
+
+  const locations = state.map.locations.map((location): Location => {
+    const fed = (location.stockpile?.grain || 0) / Math.max(1, stockTarget(location, 'grain'));
+    const besieged = (state.armies || []).some(a => a.status === 'besieging' && a.location_id === location.id);
+    const garrison = (state.armies || [])
+      .filter(a => a.status === 'garrisoned' && a.location_id === location.id && a.faction_id === location.faction_id)
+      .reduce((sum, a) => sum + a.troops, 0);
+    const occupied = location.occupied_since !== null && location.occupied_since !== undefined
+      && state.time.epoch - location.occupied_since < DEMOGRAPHY_RULES.assimilation_days;
+    const famine = fed < DEMOGRAPHY_RULES.famine_below;
+    const population = Math.max(0, location.population);
+
+    let deaths = famine ? population * DEMOGRAPHY_RULES.famine_deaths * (1 - fed / DEMOGRAPHY_RULES.famine_below) : 0;
+    if (besieged) deaths += population * DEMOGRAPHY_RULES.siege_deaths;
+    const births = famine ? 0 : population * DEMOGRAPHY_RULES.growth * clamp(location.prosperity, 0, 100) / 100;
+    const prosperity = location.prosperity
+      - (famine ? DEMOGRAPHY_RULES.famine_prosperity : 0)
+      - (besieged ? DEMOGRAPHY_RULES.siege_prosperity : 0);
+    const unrest = location.unrest
+      + DEMOGRAPHY_RULES.shortage_unrest * Math.max(0, 1 - fed)
+      + (occupied ? DEMOGRAPHY_RULES.occupation_unrest : 0)
+      - (famine ? 0 : DEMOGRAPHY_RULES.calm)
+      - garrison * DEMOGRAPHY_RULES.garrison_calm
+      - buildingLevels(location, 'inn') * BUILDING_RULES.inn_calm;
+    const settled = clamp(round2(unrest), 0, 100);
+    return {
+      ...location,
+      population: Math.max(0, population + people(births, rng) - people(deaths, rng) + (moves[location.id] || 0)),
+      prosperity: clamp(round2(prosperity), 0, 100),
+      unrest: settled,
+      unrest_days: location.faction_id && settled > DEMOGRAPHY_RULES.rebellion_unrest && garrison < population * DEMOGRAPHY_RULES.garrison_suppress
+        ? (location.unrest_days || 0) + 1
+        : 0,
+      occupied_since: occupied ? location.occupied_since : null
+    };
+  });
+
+  let working: WorldState = { ...state, map: { ...state.map, locations } };
+  const events: EventLogEntry[] = [];
+  locations
+    .filter(l => l.faction_id && l.unrest_days >= DEMOGRAPHY_RULES.rebellion_days)
+    .forEach(l => {
+      const current = working.map.locations.find(c => c.id === l.id)!;
+      const result = rebel(working, current, rng);
+      working = result.state;
+      events.push(result.event);
+    });
+
+  return {
+    map: working.map,
+    factions: working.factions,
+    npcs: working.npcs,
+    armies: working.armies,
+    event_log: [...(state.event_log || []), ...events],
+    rng: rng.snapshot()
+  };
+};
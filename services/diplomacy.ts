@@ -0,0 +1,269 @@
+import { WorldState, Faction, Treaty, TreatyKind } from '../types';
+import { DIPLOMACY_RULES } from '../constants';
+import { createRng } from './rng';
+
+type ActionResult = { success: boolean; message: string; updates: Partial<WorldState> | null };
+
+type Relationship = Faction['relationships'][number];
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const round2 = (value: number) => parseFloat(value.toFixed(2));
+
+const NEUTRAL: Omit<Relationship, 'target_faction_id'> = { type: 'neutral', score: 0 };
+
+/** How `fromId` regards `toId`; factions that have never dealt with each other are neutral. */
+export const relationOf = (state: WorldState, fromId: string, toId: string): Relationship =>
+  state.factions.find(f => f.id === fromId)?.relationships.find(r => r.target_faction_id === toId)
+    || { target_faction_id: toId, ...NEUTRAL };
+
+/** War is declared by one side but binds both; armies may only fight between factions at war. */
+export const atWar = (state: WorldState, a: string | null, b: string | null) => {
+  if (!a || !b || a === b) return false;
+  return relationOf(state, a, b).type === 'hostile' || relationOf(state, b, a).type === 'hostile';
+};
+
+export const activeTreaties = (state: WorldState, a: string, b: string, kind?: TreatyKind) =>
+  (state.treaties || []).filter(t => t.status === 'active' && t.party_ids.includes(a) && t.party_ids.includes(b) && (!kind || t.kind === kind));
+
+/** Neutral relations between every pair of factions, with sentiment set by how well their archetypes get along. */
+export const initialRelationships = (factions: Pick<Faction, 'id' | 'archetype'>[], faction: Pick<Faction, 'id' | 'archetype'>): Relationship[] =>
+  factions.filter(other => other.id !== faction.id).map(other => ({
+    target_faction_id: other.id,
+    type: 'neutral',
+    score: DIPLOMACY_RULES.archetype_tension[[faction.archetype, other.archetype].sort().join(':')] ?? 0
+  }));
+
+/** Rewrites how `fromId` regards `toId`, creating the entry if needed and keeping the score in range. */
+export const updateRelation = (factions: Faction[], fromId: string, toId: string, patch: (r: Relationship) => Partial<Relationship>): Faction[] =>
+  factions.map(f => {
+    if (f.id !== fromId) return f;
+    const current = f.relationships.find(r => r.target_faction_id === toId) || { target_faction_id: toId, ...NEUTRAL };
+    const next = { ...current, ...patch(current) };
+    next.score = round2(clamp(next.score, -100, 100));
+    return { ...f, relationships: [...f.relationships.filter(r => r.target_faction_id !== toId), next] };
+  });
+
+/** Sets the formal stance both ways. */
+export const setStance = (factions: Faction[], a: string, b: string, type: Relationship['type']) =>
+  updateRelation(updateRelation(factions, a, b, () => ({ type })), b, a, () => ({ type }));
+
+const strength = (state: WorldState, factionId: string) => {
+  const faction = state.factions.find(f => f.id === factionId);
+  if (!faction) return 0;
+  const field = (state.armies || []).filter(a => a.faction_id === factionId).reduce((sum, a) => sum + a.troops, 0);
+  return (faction.military.troops + field) * faction.military.quality;
+};
+
+/** How keen the target is on a deal: its sentiment, the proposer's reputation and who has the bigger army. */
+const willingness = (state: WorldState, proposerId: string, targetId: string) => {
+  const proposer = state.factions.find(f => f.id === proposerId);
+  return relationOf(state, targetId, proposerId).score
+    + ((proposer?.reputation ?? 50) - 50) * DIPLOMACY_RULES.reputation_weight
+    + (strength(state, proposerId) > strength(state, targetId) ? DIPLOMACY_RULES.strength_bonus : 0);
+};
+
+const resolveParties = (state: WorldState, factionId: string, targetId: string) => {
+  const faction = state.factions.find(f => f.id === factionId);
+  const target = state.factions.find(f => f.id === targetId);
+  if (!faction || !target) return { error: 'Faction not found' };
+  if (faction.id === target.id) return { error: 'A faction cannot treat with itself' };
+  return { faction, target };
+};
+
+const signTreaty = (state: WorldState, kind: TreatyKind, partyIds: [string, string], days: number, terms: Treaty['terms'] = {}) => {
+  const rng = createRng(state.rng);
+  const treaty: Treaty = {
+    id: rng.id(`treaty_${state.time.epoch}`),
+    kind,
+    party_ids: partyIds,
+    terms,
+    signed_epoch: state.time.epoch,
+    expires_epoch: state.time.epoch + clamp(Math.round(Number(days) || DIPLOMACY_RULES.default_days), 1, DIPLOMACY_RULES.max_days),
+    status: 'active',
+    broken_by: null
+  };
+  return { treaty, treaties: [...(state.treaties || []), treaty], rng: rng.snapshot() };
+};
+
+/**
+ * Marks treaties with one other faction broken by `breakerId`. The betrayer loses reputation
+ * once per act, the wronged party remembers it bitterly and every other faction trusts the
+ * betrayer a little less.
+ */
+const breakTreaties = (state: WorldState, broken: Treaty[], breakerId: string): Pick<WorldState, 'factions' | 'treaties'> => {
+  if (!broken.length) return { factions: state.factions, treaties: state.treaties };
+  const victimId = broken[0].party_ids.find(id => id !== breakerId)!;
+  let factions = state.factions.map(f => f.id === breakerId
+    ? { ...f, reputation: round2(Math.max(0, (f.reputation ?? 50) - DIPLOMACY_RULES.betrayal_reputation)) }
+    : f);
+  factions.filter(f => f.id !== breakerId).forEach(f => {
+    const loss = f.id === victimId ? DIPLOMACY_RULES.betrayal_victim_score : DIPLOMACY_RULES.betrayal_score;
+    factions = updateRelation(factions, f.id, breakerId, r => ({ score: r.score - loss }));
+  });
+  if (broken.some(t => t.kind === 'alliance')) factions = setStance(factions, breakerId, victimId, 'neutral');
+  return {
+    factions,
+    treaties: (state.treaties || []).map(t => broken.some(b => b.id === t.id) ? { ...t, status: 'broken' as const, broken_by: breakerId } : t)
+  };
+};
+
+export const declareWar = (state: WorldState, factionId: string, inputs: { target_faction_id: string }): ActionResult => {
+  const parties = resolveParties(state, factionId, inputs.target_faction_id);
+  if ('error' in parties) return { success: false, message: parties.error, updates: null };
+  const { faction, target } = parties;
+  if (atWar(state, faction.id, target.id)) return { success: false, message: `Already at war with ${target.name}`, updates: null };
+
+  const broken = activeTreaties(state, faction.id, target.id);
+  const working: WorldState = { ...state, ...breakTreaties(state, broken, faction.id) };
+  const factions = updateRelation(setStance(working.factions, faction.id, target.id, 'hostile'), target.id, faction.id, r => ({ score: Math.min(r.score, 0) }));
+  return {
+    success: true,
+    message: `${faction.name} declared war on ${target.name}${broken.length ? `, tearing up ${broken.map(t => `their ${t.kind}`).join(' and ')}` : ''}`,
+    updates: { factions, treaties: working.treaties }
+  };
+};
+
+/** Offers a truce. An enemy accepts when it does not hate the proposer too much or is outmatched. */
+export const proposeTreaty = (
+  state: WorldState,
+  factionId: string,
+  inputs: { target_faction_id: string; duration_days?: number }
+): ActionResult => {
+  const parties = resolveParties(state, factionId, inputs.target_faction_id);
+  if ('error' in parties) return { success: false, message: parties.error, updates: null };
+  const { faction, target } = parties;
+  if (activeTreaties(state, faction.id, target.id, 'truce').length) return { success: false, message: `A truce with ${target.name} already holds`, updates: null };
+  if (willingness(state, faction.id, target.id) < DIPLOMACY_RULES.truce_accept_score) {
+    return { success: false, message: `${target.name} rejected a truce`, updates: null };
+  }
+
+  const { treaty, treaties, rng } = signTreaty(state, 'truce', [faction.id, target.id], inputs.duration_days ?? DIPLOMACY_RULES.default_days);
+  const factions = atWar(state, faction.id, target.id) ? setStance(state.factions, faction.id, target.id, 'neutral') : state.factions;
+  return {
+    success: true,
+    message: `${faction.name} and ${target.name} signed a truce until day ${treaty.expires_epoch}`,
+    updates: { factions, treaties, rng }
+  };
+};
+
+export const formAlliance = (
+  state: WorldState,
+  factionId: string,
+  inputs: { target_faction_id: string; duration_days?: number }
+): ActionResult => {
+  const parties = resolveParties(state, factionId, inputs.target_faction_id);
+  if ('error' in parties) return { success: false, message: parties.error, updates: null };
+  const { faction, target } = parties;
+  if (atWar(state, faction.id, target.id)) return { success: false, message: `Cannot ally with ${target.name} while at war`, updates: null };
+  if (activeTreaties(state, faction.id, target.id, 'alliance').length) return { success: false, message: `Already allied with ${target.name}`, updates: null };
+  if (willingness(state, faction.id, target.id) < DIPLOMACY_RULES.alliance_accept_score) {
+    return { success: false, message: `${target.name} declined an alliance`, updates: null };
+  }
+
+  const { treaty, treaties, rng } = signTreaty(state, 'alliance', [faction.id, target.id], inputs.duration_days ?? DIPLOMACY_RULES.default_days);
+  return {
+    success: true,
+    message: `${faction.name} and ${target.name} formed an alliance until day ${treaty.expires_epoch}`,
+    updates: { factions: setStance(state.factions, faction.id, target.id, 'allied'), treaties, rng }
+  };
+};
+
+/** Commits to a daily payment of gold; the recipient warms to the payer with every installment. */
+export const payTribute = (
+  state: WorldState,
+  factionId: string,
+  inputs: { target_faction_id: string; gold_per_day: number; duration_days?: number }
+): ActionResult => {
+  const parties = resolveParties(state, factionId, inputs.target_faction_id);
+  if ('error' in parties) return { success: false, message: parties.error, updates: null };
+  const { faction, target } = parties;
+  const gold = round2(Number(inputs.gold_per_day) || 0);
+  if (gold <= 0) return { success: false, message: 'Tribute must be a positive amount of gold', updates: null };
+  if (faction.resources.gold < gold) return { success: false, message: `Insufficient resources. Needed: ${gold} gold`, updates: null };
+
+  const { treaty, treaties, rng } = signTreaty(state, 'tribute', [faction.id, target.id], inputs.duration_days ?? DIPLOMACY_RULES.default_days, { gold_per_day: gold, payer_faction_id: faction.id });
+  return {
+    success: true,
+    message: `${faction.name} pays ${target.name} ${gold} gold a day until day ${treaty.expires_epoch}`,
+    updates: { treaties, rng }
+  };
+};
+
+/**
+ * One day of diplomacy. Treaties run out, tribute changes hands (a payer that cannot pay has
+ * broken its word), and every score drifts back towards indifference unless something keeps
+ * it up: war and sieges harden feelings, trade routes, alliances and tribute soften them.
+ * Keeping a treaty to the end earns reputation; a tarnished one slowly recovers to 50.
+ */
+export const runDiplomacy = (state: WorldState): Partial<WorldState> => {
+  if (state.factions.length < 2) return {};
+  let working: WorldState = state;
+
+  (working.treaties || []).filter(t => t.status === 'active').forEach(treaty => {
+    const [a, b] = treaty.party_ids;
+    if (treaty.expires_epoch <= state.time.epoch) {
+      const honoured = working.factions.map(f => treaty.party_ids.includes(f.id)
+        ? { ...f, reputation: Math.min(100, (f.reputation ?? 50) + DIPLOMACY_RULES.honour_reputation) }
+        : f);
+      working = {
+        ...working,
+        factions: treaty.kind === 'alliance' && !activeTreaties(working, a, b, 'alliance').some(t => t.id !== treaty.id)
+          ? setStance(honoured, a, b, 'neutral')
+          : honoured,
+        treaties: working.treaties.map(t => t.id === treaty.id ? { ...t, status: 'expired' as const } : t)
+      };
+      return;
+    }
+    if (treaty.kind !== 'tribute') return;
+    const payerId = treaty.terms.payer_faction_id || a;
+    const payeeId = payerId === a ? b : a;
+    const gold = treaty.terms.gold_per_day || 0;
+    const payer = working.factions.find(f => f.id === payerId);
+    if (!payer || payer.resources.gold < gold) {
+      working = { ...working, ...breakTreaties(working, [treaty], payerId) };
+      return;
+    }
+    const factions = working.factions.map(f => {
+      const delta = f.id === payerId ? -gold : f.id === payeeId ? gold : 0;
+      return delta ? { ...f, resources: { ...f.resources, gold: round2(f.resources.gold + delta) } } : f;
+    });
+    working = { ...working, factions: updateRelation(factions, payeeId, payerId, r => ({ score: r.score + gold * DIPLOMACY_RULES.tribute_goodwill })) };
+  });
+
+  const shifts: Record<string, number> = {};
+  const shift = (fromId: string | null, toId: string | null, delta: number) => {
+    if (!fromId || !toId || fromId === toId) return;
+    const key = `${fromId}>${toId}`;
+    shifts[key] = (shifts[key] || 0) + delta;
+  };
+  working.factions.forEach(a => working.factions.forEach(b => {
+    if (a.id === b.id) return;
+    if (atWar(working, a.id, b.id)) shift(a.id, b.id, -DIPLOMACY_RULES.war_hostility);
+    if (activeTreaties(working, a.id, b.id, 'alliance').length) shift(a.id, b.id, DIPLOMACY_RULES.alliance_goodwill);
+  }));
+  working.map.routes.filter(r => r.status === 'active').forEach(route => {
+    const destination = working.map.locations.find(l => l.id === route.to_location_id)?.faction_id || null;
+    shift(route.owner_faction_id, destination, DIPLOMACY_RULES.trade_goodwill);
+    shift(destination, route.owner_faction_id, DIPLOMACY_RULES.trade_goodwill);
+  });
+  (working.armies || []).filter(a => a.status === 'besieging').forEach(army => {
+    const besieged = working.map.locations.find(l => l.id === army.location_id)?.faction_id || null;
+    shift(besieged, army.faction_id, -DIPLOMACY_RULES.siege_hostility);
+  });
+
+  let factions = working.factions.map(f => ({
+    ...f,
+    reputation: (f.reputation ?? 50) < 50 ? round2(Math.min(50, (f.reputation ?? 50) + DIPLOMACY_RULES.reputation_recovery)) : f.reputation ?? 50,
+    relationships: f.relationships.map(r => {
+      const drift = Math.min(Math.abs(r.score), DIPLOMACY_RULES.score_drift) * Math.sign(r.score);
+      return { ...r, score: round2(r.score - drift) };
+    })
+  }));
+  Object.entries(shifts).forEach(([key, delta]) => {
+    const [fromId, toId] = key.split('>');
+    factions = updateRelation(factions, fromId, toId, r => ({ score: r.score + delta }));
+  });
+
+  return { factions, treaties: working.treaties };
+};
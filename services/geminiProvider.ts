@@ -0,0 +1,131 @@
+import { GoogleGenAI, Type, Modality } from "@google/genai";
+import type { Schema } from "@google/genai";
+import { API_KEY_REQUIRED_MESSAGE, resolveApiKey } from './aiSettings';
+import { safeJsonParse } from './llmProvider';
+import type { JsonSchema, LLMProvider, ModelTier } from './llmProvider';
+
+// Model definitions
+const PRO_MODEL = 'gemini-3-pro-preview';
+const FLASH_MODEL = 'gemini-3-flash-preview';
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+const SCHEMA_TYPES: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: SCHEMA_TYPES[schema.type],
+  ...(schema.description ? { description: schema.description } : {}),
+  ...(schema.enum ? { enum: schema.enum } : {}),
+  ...(schema.required ? { required: schema.required } : {}),
+  ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+  ...(schema.properties
+    ? { properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])) }
+    : {})
+});
+
+const modelFor = (tier: ModelTier = 'flash') => tier === 'pro' ? PRO_MODEL : FLASH_MODEL;
+
+const getAiProviderKey = () => {
+  const apiKey = resolveApiKey('gemini');
+  if (!apiKey) {
+    throw new Error(API_KEY_REQUIRED_MESSAGE);
+  }
+  return apiKey;
+};
+
+const createAiClient = () => new GoogleGenAI({ apiKey: getAiProviderKey() });
+
+export const createGeminiProvider = (): LLMProvider => ({
+  id: 'gemini',
+
+  generateText: async (request) => {
+    const ai = createAiClient();
+    const response = await ai.models.generateContent({
+      model: modelFor(request.tier),
+      contents: request.prompt,
+      config: request.system ? { systemInstruction: request.system } : undefined
+    });
+    return response.text || '';
+  },
+
+  generateJson: async (request) => {
+    const ai = createAiClient();
+    const response = await ai.models.generateContent({
+      model: modelFor(request.tier),
+      contents: request.prompt,
+      config: {
+        ...(request.system ? { systemInstruction: request.system } : {}),
+        responseMimeType: "application/json",
+        ...(request.schema ? { responseSchema: toGeminiSchema(request.schema) } : {})
+      }
+    });
+    return safeJsonParse(response.text || "null", null);
+  },
+
+  callTools: async (request) => {
+    const ai = createAiClient();
+    const response = await ai.models.generateContent({
+      model: modelFor(request.tier),
+      contents: request.prompt,
+      config: {
+        ...(request.system ? { systemInstruction: request.system } : {}),
+        tools: [{
+          functionDeclarations: request.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            parameters: toGeminiSchema(tool.parameters)
+          }))
+        }]
+      }
+    });
+    const parts = response.candidates?.[0]?.content?.parts || [];
+    return parts
+      .filter(part => part.functionCall?.name)
+      .map(part => ({ name: part.functionCall!.name!, args: part.functionCall!.args || {} }));
+  },
+
+  chat: async (request) => {
+    const ai = createAiClient();
+    const chatHistory = request.history.map(h => ({ role: h.role === 'user' ? 'user' : 'model', parts: [{ text: h.text }] }));
+    const chat = ai.chats.create({ model: FLASH_MODEL, config: { systemInstruction: request.system }, history: chatHistory });
+    const result = await chat.sendMessage({ message: request.message });
+    return result.text || '';
+  },
+
+  generateImage: async (prompt) => {
+    const ai = createAiClient();
+    const response = await ai.models.generateContent({
+      model: IMAGE_MODEL,
+      contents: { parts: [{ text: prompt }] },
+      config: { imageConfig: { aspectRatio: "1:1" } }
+    });
+
+    const parts = response.candidates?.[0]?.content?.parts || [];
+    for (const part of parts) {
+      if (part.inlineData) {
+        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+      }
+    }
+    return null;
+  },
+
+  speak: async (text, voiceName) => {
+    const ai = createAiClient();
+    const response = await ai.models.generateContent({
+      model: TTS_MODEL,
+      contents: [{ parts: [{ text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+      },
+    });
+    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || null;
+  }
+});
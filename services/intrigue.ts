@@ -0,0 +1,74 @@
+import { WorldState } from '../types';
+import { INTRIGUE_RULES } from '../constants';
+import { createRng } from './rng';
+import { updateRelation } from './diplomacy';
+
+type ActionResult = { success: boolean; message: string; updates: Partial<WorldState> | null };
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const round2 = (value: number) => parseFloat(value.toFixed(2));
+
+/** Resolves the acting NPC, its faction and the settlement it is standing in. */
+const onSite = (state: WorldState, npcId: string, locationId: string) => {
+  const npc = state.npcs.find(n => n.id === npcId);
+  const faction = state.factions.find(f => f.id === npc?.faction_id);
+  const location = state.map.locations.find(l => l.id === locationId);
+  if (!npc || !faction) return { error: 'Agent not found' };
+  if (!location) return { error: 'Location not found' };
+  if (npc.travel || npc.location_id !== location.id) return { error: `${npc.name} must be in ${location.name} to act there` };
+  return { npc, faction, location };
+};
+
+/**
+ * A spy stirs up a foreign settlement at the faction's expense. Some plots are exposed,
+ * and the settlement's rulers think the worse of whoever paid for them.
+ */
+export const inciteUnrest = (state: WorldState, npcId: string, inputs: { location_id: string }): ActionResult => {
+  const site = onSite(state, npcId, inputs.location_id);
+  if ('error' in site) return { success: false, message: site.error, updates: null };
+  const { npc, faction, location } = site;
+  if (!location.faction_id || location.faction_id === faction.id) return { success: false, message: `${location.name} is not held by a rival`, updates: null };
+  if (faction.resources.gold < INTRIGUE_RULES.incite_gold) return { success: false, message: `The ${faction.name} cannot fund agitators (${INTRIGUE_RULES.incite_gold} gold)`, updates: null };
+
+  const rng = createRng(state.rng);
+  const caught = rng.chance(INTRIGUE_RULES.caught_chance);
+  let factions = state.factions.map(f => f.id === faction.id
+    ? { ...f, resources: { ...f.resources, gold: round2(f.resources.gold - INTRIGUE_RULES.incite_gold) } }
+    : f);
+  if (caught) factions = updateRelation(factions, location.faction_id, faction.id, r => ({ score: r.score - INTRIGUE_RULES.caught_score }));
+  const locations = state.map.locations.map(l => l.id === location.id
+    ? { ...l, unrest: round2(clamp(l.unrest + INTRIGUE_RULES.incite_unrest, 0, 100)) }
+    : l);
+  const victim = state.factions.find(f => f.id === location.faction_id);
+  return {
+    success: true,
+    message: `${npc.name} stirred unrest in ${location.name}${caught ? `, and the ${victim?.name || 'rulers'} traced the plot to the ${faction.name}` : ''}`,
+    updates: { factions, map: { ...state.map, locations }, rng: rng.snapshot() }
+  };
+};
+
+/** A priest calms one of the faction's own settlements, paid for in alms from the treasury. */
+export const preach = (state: WorldState, npcId: string, inputs: { location_id: string }): ActionResult => {
+  const site = onSite(state, npcId, inputs.location_id);
+  if ('error' in site) return { success: false, message: site.error, updates: null };
+  const { npc, faction, location } = site;
+  if (location.faction_id !== faction.id) return { success: false, message: `${location.name} does not belong to the ${faction.name}`, updates: null };
+  if (faction.resources.gold < INTRIGUE_RULES.preach_gold) return { success: false, message: `The ${faction.name} cannot spare alms (${INTRIGUE_RULES.preach_gold} gold)`, updates: null };
+
+  const factions = state.factions.map(f => f.id === faction.id
+    ? { ...f, resources: { ...f.resources, gold: round2(f.resources.gold - INTRIGUE_RULES.preach_gold) } }
+    : f);
+  const locations = state.map.locations.map(l => l.id === location.id
+    ? {
+      ...l,
+      unrest: round2(clamp(l.unrest - INTRIGUE_RULES.preach_calm, 0, 100)),
+      prosperity: round2(clamp(l.prosperity + INTRIGUE_RULES.preach_prosperity, 0, 100))
+    }
+    : l);
+  return {
+    success: true,
+    message: `${npc.name} preached to the crowds of ${location.name}`,
+    updates: { factions, map: { ...state.map, locations } }
+  };
+};
@@ -0,0 +1,160 @@
+import { WorldState, Faction, FactionLaw, LawId, EventLogEntry } from '../types';
+import { LAW_CATALOG, LAW_RULES } from '../constants';
+import { createRng } from './rng';
+
+type ActionResult = { success: boolean; message: string; updates: Partial<WorldState> | null };
+
+export type LawModifiers = {
+  tax: number; // multiplier on settlement taxes
+  tariff: number; // share of foreign caravans' profit taken at the faction's markets
+  daily_unrest: number;
+  daily_prosperity: number;
+  draft_rate: number; // share of residents drafted per day
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const round2 = (value: number) => parseFloat(value.toFixed(2));
+
+export const isLawId = (id: any): id is LawId => typeof id === 'string' && Object.prototype.hasOwnProperty.call(LAW_CATALOG, id);
+
+/**
+ * Folds a faction's laws into the numbers the rest of the simulation reads. Enforcement
+ * decides how much of what a law promises is actually collected; the resentment it breeds
+ * comes regardless.
+ */
+export const lawModifiers = (faction: Faction | undefined): LawModifiers => {
+  const mods: LawModifiers = { tax: 1, tariff: 0, daily_unrest: 0, daily_prosperity: 0, draft_rate: 0 };
+  (faction?.laws || []).forEach(law => {
+    const grip = clamp(law.enforcement, 0, 100) / 100;
+    if (law.id === 'tax_rate') {
+      mods.tax *= 1 + (law.level - 1) * (law.level > 1 ? grip : 1);
+      mods.daily_unrest += Math.max(0, law.level - 1) * LAW_RULES.tax_unrest;
+    } else if (law.id === 'conscription') {
+      mods.draft_rate += law.level * LAW_RULES.conscription_rate * grip;
+      mods.daily_unrest += law.level * LAW_RULES.conscription_unrest;
+    } else if (law.id === 'trade_tariff') {
+      mods.tariff += law.level * grip;
+    } else if (law.id === 'curfew') {
+      mods.tax *= LAW_RULES.curfew_tax;
+      mods.daily_unrest -= LAW_RULES.curfew_unrest * grip;
+      mods.daily_prosperity -= LAW_RULES.curfew_prosperity;
+    }
+  });
+  return mods;
+};
+
+/** Gold a faction owes each day for enforcing its laws in every settlement it holds. */
+export const enforcementCost = (state: WorldState, faction: Faction) => {
+  const held = state.map.locations.filter(l => l.faction_id === faction.id).length;
+  return round2((faction.laws || []).reduce((sum, law) => sum + clamp(law.enforcement, 0, 100), 0) * LAW_RULES.enforcement_gold * held);
+};
+
+/** Enacts a law from the catalog, or amends its level, enforcement and wording if already in force. */
+export const enactLaw = (
+  state: WorldState,
+  factionId: string,
+  inputs: { law_id: string; level?: number; enforcement?: number; text?: string }
+): ActionResult => {
+  const factionIndex = state.factions.findIndex(f => f.id === factionId);
+  const faction = state.factions[factionIndex];
+  if (!faction) return { success: false, message: 'Faction not found', updates: null };
+  if (!isLawId(inputs.law_id)) return { success: false, message: `Unknown law ${inputs.law_id}`, updates: null };
+
+  const entry = LAW_CATALOG[inputs.law_id];
+  const level = Number(inputs.level ?? entry.default_level);
+  const enforcement = Number(inputs.enforcement ?? LAW_RULES.default_enforcement);
+  const law: FactionLaw = {
+    id: inputs.law_id,
+    text: (inputs.text || '').trim() || `${faction.name} decrees it: ${entry.description}`,
+    level: round2(clamp(Number.isFinite(level) ? level : entry.default_level, entry.min_level, entry.max_level)),
+    enforcement: Math.round(clamp(Number.isFinite(enforcement) ? enforcement : LAW_RULES.default_enforcement, 0, 100)),
+    enacted_epoch: state.time.epoch
+  };
+  const amended = faction.laws.some(l => l.id === law.id);
+  const newFactions = [...state.factions];
+  newFactions[factionIndex] = { ...faction, laws: [...faction.laws.filter(l => l.id !== law.id), law] };
+  return {
+    success: true,
+    message: `${faction.name} ${amended ? 'amended' : 'enacted'} ${entry.name} (level ${law.level}, enforcement ${law.enforcement})`,
+    updates: { factions: newFactions }
+  };
+};
+
+export const repealLaw = (state: WorldState, factionId: string, inputs: { law_id: string }): ActionResult => {
+  const factionIndex = state.factions.findIndex(f => f.id === factionId);
+  const faction = state.factions[factionIndex];
+  if (!faction) return { success: false, message: 'Faction not found', updates: null };
+  if (!faction.laws.some(l => l.id === inputs.law_id)) return { success: false, message: `No law ${inputs.law_id} is in force`, updates: null };
+
+  const newFactions = [...state.factions];
+  newFactions[factionIndex] = { ...faction, laws: faction.laws.filter(l => l.id !== inputs.law_id) };
+  return {
+    success: true,
+    message: `${faction.name} repealed ${isLawId(inputs.law_id) ? LAW_CATALOG[inputs.law_id].name : inputs.law_id}`,
+    updates: { factions: newFactions }
+  };
+};
+
+/**
+ * One day under the law. Conscription drafts residents into the reserve; taxes, drafts and
+ * curfews shift unrest and prosperity in every settlement the faction holds. Laws enforced
+ * below `lax_enforcement` invite incidents: smugglers skim the treasury under taxes and
+ * tariffs, and crowds defy drafts and curfews.
+ */
+export const applyLaws = (state: WorldState): Partial<WorldState> => {
+  if (!state.factions.some(f => f.laws?.length)) return {};
+  const rng = createRng(state.rng);
+  const events: EventLogEntry[] = [];
+  let locations = state.map.locations;
+
+  const factions = state.factions.map(faction => {
+    if (!faction.laws?.length) return faction;
+    const mods = lawModifiers(faction);
+    const held = locations.filter(l => l.faction_id === faction.id);
+    const incidents: Record<string, number> = {};
+    let gold = faction.resources.gold;
+
+    faction.laws.forEach(law => {
+      if (!held.length || law.enforcement >= LAW_RULES.lax_enforcement) return;
+      if (!rng.chance(LAW_RULES.incident_chance * (1 - law.enforcement / 100))) return;
+      const where = rng.pick(held);
+      const name = LAW_CATALOG[law.id]?.name || law.id;
+      const smuggling = law.id === 'tax_rate' || law.id === 'trade_tariff';
+      if (smuggling) gold = round2(Math.max(0, gold - LAW_RULES.smuggled_gold));
+      else incidents[where.id] = (incidents[where.id] || 0) + LAW_RULES.incident_unrest;
+      events.push({
+        id: `evt_law_${state.time.epoch}_${faction.id}_${law.id}`,
+        epoch: state.time.epoch,
+        type: smuggling ? 'smuggling' : 'unrest',
+        title: smuggling ? `Smugglers in ${where.name}` : `Defiance in ${where.name}`,
+        summary: smuggling
+          ? `Lax enforcement of the ${faction.name}'s ${name} let smugglers slip ${LAW_RULES.smuggled_gold} gold past the collectors.`
+          : `Crowds in ${where.name} openly defied the ${faction.name}'s ${name}.`,
+        impact: { faction_id: faction.id, law_id: law.id, location_id: where.id },
+        decision_trace_id: null
+      });
+    });
+
+    let drafted = 0;
+    locations = locations.map(l => {
+      if (l.faction_id !== faction.id) return l;
+      const draft = Math.floor(Math.max(0, l.population) * mods.draft_rate);
+      drafted += draft;
+      return {
+        ...l,
+        population: l.population - draft,
+        unrest: round2(clamp(l.unrest + mods.daily_unrest + (incidents[l.id] || 0), 0, 100)),
+        prosperity: round2(clamp(l.prosperity + mods.daily_prosperity, 0, 100))
+      };
+    });
+    return { ...faction, resources: { ...faction.resources, gold }, military: { ...faction.military, troops: faction.military.troops + drafted } };
+  });
+
+  return {
+    factions,
+    map: { ...state.map, locations },
+    event_log: [...(state.event_log || []), ...events],
+    rng: rng.snapshot()
+  };
+};
@@ -0,0 +1,82 @@
+import type { ProviderId } from './aiSettings';
+
+/** Provider-neutral subset of JSON Schema. Adapters translate it to their native format. */
+export type JsonSchema = {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: string[];
+  required?: string[];
+};
+
+export type ToolDefinition = {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+};
+
+export type ToolCall = { name: string; args: Record<string, any> };
+
+export type ChatMessage = { role: 'user' | 'assistant'; text: string };
+
+export type ModelTier = 'pro' | 'flash';
+
+export type LLMRequest = {
+  /** Logical caller, e.g. `manager`. Keys transcripts and drives rule-based providers. */
+  agent: string;
+  prompt: string;
+  system?: string;
+  tier?: ModelTier;
+  /** Structured inputs behind the prompt. Remote providers ignore it. */
+  context?: Record<string, any>;
+};
+
+export type ChatRequest = {
+  agent: string;
+  system: string;
+  history: ChatMessage[];
+  message: string;
+  context?: Record<string, any>;
+};
+
+export interface LLMProvider {
+  id: ProviderId;
+  generateText(request: LLMRequest): Promise<string>;
+  generateJson<T = any>(request: LLMRequest & { schema?: JsonSchema }): Promise<T | null>;
+  callTools(request: LLMRequest & { tools: ToolDefinition[] }): Promise<ToolCall[]>;
+  chat(request: ChatRequest): Promise<string>;
+  generateImage(prompt: string): Promise<string | null>;
+  speak(text: string, voiceName: string): Promise<string | null>;
+}
+
+export const safeJsonParse = <T,>(value: string, fallback: T): T => {
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * Utility for exponential backoff retries on 429 errors
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, maxRetries = 3): Promise<T> => {
+  let lastError: any;
+  for (let i = 0; i < maxRetries; i++) {
+    try {
+      return await fn();
+    } catch (error: any) {
+      lastError = error;
+      const errorMsg = error?.message || "";
+      if (errorMsg.includes("429") || errorMsg.includes("quota") || errorMsg.includes("RESOURCE_EXHAUSTED")) {
+        const delay = Math.pow(2, i + 1) * 1000 + Math.random() * 1000;
+        console.warn(`Rate limited (429). Retrying in ${Math.round(delay)}ms... (Attempt ${i + 1}/${maxRetries})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        continue;
+      }
+      throw error;
+    }
+  }
+  throw lastError;
+};
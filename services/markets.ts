@@ -0,0 +1,133 @@
+import { WorldState, Location, Commodity, Faction } from '../types';
+import { MARKET_RULES, STAPLE_COMMODITIES } from '../constants';
+import { createRng, hashString } from './rng';
+import { buildingLevels } from './buildings';
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const round2 = (value: number) => parseFloat(value.toFixed(2));
+
+export const dailyDemand = (location: Pick<Location, 'population'>, commodityId: string) =>
+  Math.max(0, location.population) * (MARKET_RULES.consumption_per_pop[commodityId] ?? MARKET_RULES.default_consumption_per_pop);
+
+/** Units of a commodity a settlement wants on hand: `cover_days` of its own demand. */
+export const stockTarget = (location: Pick<Location, 'population'>, commodityId: string) =>
+  Math.max(1, Math.round(dailyDemand(location, commodityId) * MARKET_RULES.cover_days));
+
+/** Opening stock: somewhere between half and one and a half times the target, fixed per settlement and good. */
+export const initialStockpile = (location: Pick<Location, 'id' | 'population'>, commodities: Pick<Commodity, 'id'>[]): Record<string, number> =>
+  Object.fromEntries(commodities.map(c => {
+    const jitter = (hashString(`${location.id}:${c.id}`) % 1000) / 1000;
+    return [c.id, Math.round(stockTarget(location, c.id) * (0.5 + jitter))];
+  }));
+
+export const initialPrices = (commodities: Pick<Commodity, 'id' | 'current_price'>[]): Record<string, number> =>
+  Object.fromEntries(commodities.map(c => [c.id, c.current_price]));
+
+/** Appends any staple commodity the list is missing, priced at its base. */
+export const withStapleCommodities = (commodities: Commodity[]): Commodity[] => [
+  ...commodities,
+  ...STAPLE_COMMODITIES
+    .filter(staple => !commodities.some(c => c.id === staple.id))
+    .map(staple => ({ ...staple, current_price: staple.base_price, supply: 0, demand: 0 }))
+];
+
+export const localPrice = (state: WorldState, location: Location, commodityId: string): number =>
+  location.prices?.[commodityId] ?? state.economy.commodities.find(c => c.id === commodityId)?.current_price ?? 0;
+
+/** Route volume multiplier for caravans leaving this settlement. */
+export const marketThroughput = (location: Location) => 1 + buildingLevels(location, 'market') * MARKET_RULES.market_throughput;
+
+/**
+ * One market day everywhere. Farms and the countryside grow grain, workshops turn faction
+ * iron into goods and residents eat into the stockpile. The owning faction levies surplus
+ * grain into its granary (and releases it in a shortage), banks part of the value of surplus
+ * goods and mines iron from mountains it holds. Local prices follow each stockpile against
+ * its target; markets pull them towards the world price, which is the population-weighted
+ * average of local prices.
+ */
+export const simulateMarkets = (state: WorldState): Partial<WorldState> => {
+  const rng = createRng(state.rng);
+  const factions = new Map<string, Faction>(state.factions.map(f => [f.id, { ...f, resources: { ...f.resources } }]));
+  const totals: Record<string, { supply: number; demand: number; weighted: number; population: number }> = {};
+
+  state.map.tiles.forEach(tile => {
+    const owner = tile.terrain === 'mountain' && tile.owner_faction_id ? factions.get(tile.owner_faction_id) : undefined;
+    if (owner) owner.resources.iron += MARKET_RULES.mountain_iron;
+  });
+
+  const locations = state.map.locations.map((location): Location => {
+    const stockpile = { ...(location.stockpile || {}) };
+    const prices = { ...(location.prices || {}) };
+    const faction = location.faction_id ? factions.get(location.faction_id) : undefined;
+    const markets = buildingLevels(location, 'market');
+
+    state.economy.commodities.forEach(commodity => {
+      const id = commodity.id;
+      const demand = dailyDemand(location, id);
+      const target = stockTarget(location, id);
+      let produced = 0;
+      if (id === 'grain') {
+        produced = demand * MARKET_RULES.subsistence_share + buildingLevels(location, 'farm') * MARKET_RULES.farm_grain;
+      } else if (id === 'goods') {
+        const workshops = buildingLevels(location, 'workshop');
+        if (workshops > 0) {
+          const wanted = workshops * MARKET_RULES.workshop_iron;
+          const iron = faction ? Math.min(faction.resources.iron, wanted) : 0;
+          if (faction) faction.resources.iron -= iron;
+          produced = workshops * MARKET_RULES.workshop_goods * (0.5 + 0.5 * iron / wanted);
+        }
+      }
+
+      let stock = (stockpile[id] || 0) + produced;
+      stock -= Math.min(stock, demand);
+
+      if (faction && id === 'grain') {
+        if (stock > target * MARKET_RULES.levy_above) {
+          faction.resources.grain += stock - target * MARKET_RULES.levy_above;
+          stock = target * MARKET_RULES.levy_above;
+        } else if (stock < target * MARKET_RULES.relief_below && faction.resources.grain > 0) {
+          const relief = Math.min(faction.resources.grain, target * MARKET_RULES.relief_below - stock);
+          faction.resources.grain -= relief;
+          stock += relief;
+        }
+      } else if (faction && stock > target * MARKET_RULES.levy_above) {
+        const surplus = stock - target * MARKET_RULES.levy_above;
+        faction.resources.gold += surplus * (prices[id] ?? commodity.current_price) * MARKET_RULES.export_share;
+        stock -= surplus;
+      }
+      stockpile[id] = round2(stock);
+
+      const scarcity = clamp(Math.sqrt(target / Math.max(1, stock)), MARKET_RULES.price_floor, MARKET_RULES.price_ceiling);
+      const noise = 1 + (rng.next() * 2 - 1) * commodity.volatility / Math.max(1, commodity.base_price) * 0.5;
+      let price = commodity.base_price * scarcity * noise;
+      price = commodity.current_price + (price - commodity.current_price) / (1 + markets * MARKET_RULES.market_damping);
+      const previous = prices[id] ?? price;
+      prices[id] = Math.max(0.01, round2(previous * MARKET_RULES.price_smoothing + price * (1 - MARKET_RULES.price_smoothing)));
+
+      const total = totals[id] || (totals[id] = { supply: 0, demand: 0, weighted: 0, population: 0 });
+      total.supply += produced;
+      total.demand += demand;
+      total.weighted += prices[id] * Math.max(1, location.population);
+      total.population += Math.max(1, location.population);
+    });
+
+    return { ...location, stockpile, prices };
+  });
+
+  const commodities = state.economy.commodities.map(c => {
+    const total = totals[c.id];
+    if (!total) return c;
+    return { ...c, current_price: round2(total.weighted / total.population), supply: Math.round(total.supply), demand: Math.round(total.demand) };
+  });
+
+  return {
+    map: { ...state.map, locations },
+    factions: state.factions.map(f => {
+      const { resources } = factions.get(f.id)!;
+      return { ...f, resources: { gold: round2(resources.gold), grain: round2(resources.grain), iron: round2(resources.iron) } };
+    }),
+    economy: { ...state.economy, commodities },
+    rng: rng.snapshot()
+  };
+};
@@ -1,4 +1,5 @@
 import { NPC, MemoryItem } from '../types';
+import { hashString } from './rng';
 
 export const updateMemoryStrengths = (
   npcs: NPC[],
@@ -17,7 +18,7 @@ export const updateMemoryStrengths = (
 
 export const addMemoryToNPC = (npc: NPC, text: string, epoch: number, tags: string[] = []): NPC => {
   const newMem: MemoryItem = {
-    id: `mem_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
+    id: `mem_${epoch}_${hashString(`${npc.id}:${npc.memory.length}:${text}`).toString(36)}`,
     text,
     tags,
     strength: 1.0,
@@ -0,0 +1,442 @@
+import { WorldState, NPC, Faction, Location, ThemeConfig, BuildingType, AgentStep } from '../types';
+import { createRng, hashString } from './rng';
+import type { Rng } from './rng';
+import type { AgentTool, ToolDB } from './toolDb';
+import type { LLMProvider } from './llmProvider';
+import type { BattleReport } from './combat';
+import { ARMY_RULES, BUILDING_CATALOG, DIPLOMACY_RULES, INTRIGUE_RULES, PERMISSION_RULES, TRADE_RULES } from '../constants';
+import { factionReachDays, findLocationPath, findPath } from './pathfinding';
+import { tradeOpportunities } from './trade';
+import { activeTreaties, atWar, relationOf } from './diplomacy';
+import { fieldTroops } from './armies';
+import { buildCost, buildingSlots, repairCost } from './buildings';
+import { openQuests } from './quests';
+import { agentRole } from './scheduler';
+import { frontierDistance } from './permissions';
+import { isQueryTool } from './queries';
+
+/**
+ * Rule-based stand-in for an LLM. Every function returns the same raw payload shape the
+ * real providers are prompted for, so the rest of the pipeline runs unchanged. Output is
+ * derived from the world seed, so two runs with the same seed behave identically.
+ */
+
+const FACTION_TEMPLATES: { suffix: string; archetype: Faction['archetype']; ideology: string }[] = [
+  { suffix: 'Crown', archetype: 'order', ideology: 'Stability through law and lineage.' },
+  { suffix: 'Syndicate', archetype: 'commerce', ideology: 'Every border is a market waiting to open.' },
+  { suffix: 'Wardens', archetype: 'nature', ideology: 'The land remembers those who wound it.' },
+  { suffix: 'Host', archetype: 'chaos', ideology: 'Old orders exist to be broken.' }
+];
+
+// Leaders only march on settlements this many days from their own land, and only across a frontier they may attack over.
+const MAX_CAMPAIGN_DAYS = 4;
+
+const PLACE_PREFIXES = ['Ash', 'Iron', 'Stone', 'Raven', 'Gold', 'Thorn', 'Frost', 'Ember', 'Mist', 'High'];
+const PLACE_SUFFIXES = ['ford', 'hold', 'haven', 'gate', 'mere', 'spire', 'watch', 'fall'];
+const FIRST_NAMES = [
+  'Aldric', 'Brenna', 'Cassius', 'Dara', 'Edris', 'Fenna', 'Garrick', 'Hale', 'Isolde', 'Joren', 'Kira', 'Lorne',
+  'Maren', 'Nyle', 'Orrin', 'Perrin', 'Quenna', 'Rook'
+];
+// The first role leads its faction.
+const NPC_ROLES: { role: string; priority: number; goal: (faction: { name: string }) => string }[] = [
+  { role: 'Leader', priority: 3, goal: faction => `Secure the future of the ${faction.name}` },
+  { role: 'Merchant', priority: 2, goal: () => 'Grow the treasury through trade' },
+  { role: 'General', priority: 2, goal: faction => `Hold the borders of the ${faction.name}` },
+  { role: 'Spy', priority: 1, goal: faction => `Sow discord among the enemies of the ${faction.name}` },
+  { role: 'Priest', priority: 1, goal: () => 'Keep the faithful calm' }
+];
+
+const WORLD_EVENTS = [
+  { title: 'Storm on the Horizon', summary: 'Black clouds gather and caravans hurry for shelter.' },
+  { title: 'Bountiful Harvest', summary: 'Granaries swell as the fields give more than expected.' },
+  { title: 'Whispers in the Taverns', summary: 'Rumours of conspiracy spread faster than the truth.' },
+  { title: 'Wandering Pilgrims', summary: 'A procession of pilgrims brings news from distant lands.' },
+  { title: 'Bandit Sightings', summary: 'Travellers report armed bands lurking along the roads.' }
+];
+
+const DECREE_OPENINGS = ['By order of the council', 'Let it be known in every square', 'Hear the word of the throne', 'The assembly has spoken'];
+
+// What the mock weighs for and against each kind of deed when it plans a turn.
+const PLAN_NOTES: Record<string, { pros: string[]; cons: string[] }> = {
+  declare_war: { pros: ['Our host outmatches theirs', 'Their land lies within reach'], cons: ['Every war costs lives and trade'] },
+  move_army: { pros: ['Strikes while the enemy is weak'], cons: ['Leaves our own walls thinly held'] },
+  raise_army: { pros: ['Puts idle reserves in the field'], cons: ['An army in the field eats grain daily'] },
+  propose_treaty: { pros: ['Buys time against a stronger foe'], cons: ['Binds our hands until it expires'] },
+  pay_tribute: { pros: ['Keeps a stronger foe at bay'], cons: ['Drains the treasury every day', 'Looks like weakness'] },
+  form_alliance: { pros: ['A friend to call on in war'], cons: ['Their wars may become ours'] },
+  enact_law: { pros: ['Answers the trouble at its root'], cons: ['Enforcement costs gold every day'] },
+  repeal_law: { pros: ['Saves the cost of enforcement'], cons: ['The trouble may return'] },
+  preach: { pros: ['Calms the streets cheaply'], cons: ['The calm fades unless the cause is mended'] },
+  incite_unrest: { pros: ['Weakens a rival from within'], cons: ['An exposed plot sours relations'] },
+  travel: { pros: ['Puts me where the work is'], cons: ['Days on the road doing nothing else'] },
+  build_structure: { pros: ['Lasting strength for the settlement'], cons: ['Costly, and idle until finished'] },
+  upgrade_structure: { pros: ['Builds on what already works'], cons: ['Each level costs more than the last'] },
+  repair_structure: { pros: ['Restores a building we already paid for'], cons: ['Gold spent mending rather than growing'] },
+  open_trade_route: { pros: ['Steady profit from a price gap'], cons: ['Caravans can be cut off in war'] },
+  accept_quest: { pros: ['A bounty on work we would do anyway'], cons: ['Failure costs standing'] },
+  deliver_goods: { pros: ['Earns the bounty and goodwill'], cons: ['Empties our own stores'] },
+  execute_tool: { pros: ['A tried method from the archive'], cons: ['Its effects are modest'] }
+};
+
+const TOOL_TEMPLATES: Omit<AgentTool, 'id' | 'created_epoch'>[] = [
+  {
+    name: 'Harvest Festival',
+    description: 'Host a festival that lifts morale in a settlement.',
+    action_guidance: 'Raise prosperity and calm unrest at one location.',
+    parameters: [{ name: 'location_id', type: 'string', description: 'Settlement hosting the festival' }],
+    cooldown_days: 3,
+    lore: 'Bonfires and song remind the people why they endure.'
+  },
+  {
+    name: 'Levy Drive',
+    description: 'Recruit fresh soldiers from the countryside.',
+    action_guidance: 'Trade grain for troops in the acting faction.',
+    parameters: [{ name: 'faction_id', type: 'string', description: 'Faction raising the levy' }],
+    cooldown_days: 4,
+    lore: 'Drums sound in every village square.'
+  },
+  {
+    name: 'Fortify Walls',
+    description: 'Shore up the defenses of a threatened town.',
+    action_guidance: 'Raise defense at a location owned by the acting faction.',
+    parameters: [{ name: 'location_id', type: 'string', description: 'Location to fortify' }],
+    cooldown_days: 3,
+    lore: 'Masons work by torchlight.'
+  }
+];
+
+const seededRng = (state: WorldState, ...parts: (string | number)[]): Rng => {
+  return createRng({ seed: state.rng.seed, state: hashString([state.rng.seed, ...parts].join(':')) });
+};
+
+const titleCase = (value: string) => value.replace(/\b\w/g, c => c.toUpperCase());
+
+export const mockGenesis = (seed: string, theme: ThemeConfig, size: { width: number; height: number }) => {
+  const rng = createRng({ seed, state: hashString(`${seed}:genesis`) });
+  const genreWord = titleCase(theme.genre.split(/\s+/).pop() || 'Realm');
+  const templates = rng.shuffle(FACTION_TEMPLATES).slice(0, 3);
+
+  const factions = templates.map((template, i) => ({
+    id: `fac_${i + 1}`,
+    name: `${genreWord} ${template.suffix}`,
+    archetype: template.archetype,
+    ideology: template.ideology,
+    leader_npc_id: `npc_${i * NPC_ROLES.length + 1}`,
+    resources: { gold: rng.int(150, 300), grain: rng.int(100, 250), iron: rng.int(20, 80) },
+    military: { troops: rng.int(40, 120), quality: parseFloat(rng.range(0.8, 1.4).toFixed(2)) }
+  }));
+
+  const locations = factions.map((faction, i) => ({
+    id: `loc_${i + 1}`,
+    name: `${rng.pick(PLACE_PREFIXES)}${rng.pick(PLACE_SUFFIXES)}`,
+    type: i === 0 ? 'capital' : 'town',
+    x: Math.floor(((i + 0.5) * size.width) / factions.length) + rng.int(-1, 1),
+    y: rng.int(Math.floor(size.height / 4), Math.ceil((size.height * 3) / 4)),
+    faction_id: faction.id,
+    population: rng.int(800, 2400),
+    defense: rng.int(20, 60),
+    prosperity: rng.int(30, 70),
+    unrest: rng.int(0, 30)
+  }));
+
+  const names = rng.shuffle(FIRST_NAMES);
+  const npcs = factions.flatMap((faction, i) => NPC_ROLES.map(({ role, priority, goal }, j) => ({
+    id: `npc_${i * NPC_ROLES.length + j + 1}`,
+    name: names[i * NPC_ROLES.length + j],
+    role,
+    faction_id: faction.id,
+    location_id: locations[i].id,
+    goals: [{ id: `goal_${i}_${j}`, text: goal(faction), priority }]
+  })));
+
+  return {
+    factions,
+    locations,
+    npcs,
+    commodities: [{ id: 'grain', base_price: 10, current_price: 10, supply: rng.int(80, 120), demand: rng.int(80, 120), volatility: 1.5 }],
+    initial_event: `Three powers rise in a ${theme.tone.toLowerCase()} age of ${theme.genre}, wary of ${theme.threat.toLowerCase()}.`
+  };
+};
+
+export const mockLoadingMessages = (theme: ThemeConfig) => [
+  'Raising the land',
+  `Seeding ${theme.genre}`.slice(0, 32),
+  'Founding the factions',
+  'Waking the agents',
+  'Opening the markets'
+];
+
+const decide = (manager: NPC, state: WorldState, toolDb?: ToolDB): { name: string; args: any }[] => {
+  const rng = seededRng(state, 'manager', state.time.epoch, manager.id);
+  const faction = state.factions.find(f => f.id === manager.faction_id);
+  if (!faction) return [];
+  const role = agentRole(manager);
+  const commands = role === 'ruler' || role === 'general';
+
+  const ownLocations = state.map.locations.filter(l => l.faction_id === faction.id);
+  const reachable = state.map.locations.filter(l => {
+    if (!l.faction_id || l.faction_id === faction.id) return false;
+    const days = factionReachDays(state, faction.id, l.id);
+    const frontier = frontierDistance(state, faction.id, l);
+    return days !== null && days <= MAX_CAMPAIGN_DAYS && frontier !== null && frontier <= PERMISSION_RULES.frontier_tiles;
+  });
+  const rivals = state.factions.filter(f => f.id !== faction.id && reachable.some(l => l.faction_id === f.id));
+  const weakest = [...rivals].sort((a, b) => a.military.troops - b.military.troops)[0];
+  const weakestTarget = weakest ? reachable.find(l => l.faction_id === weakest.id) : undefined;
+
+  const power = (f: Faction) => (f.military.troops + fieldTroops(state, f.id)) * f.military.quality;
+  const menace = state.factions.find(f => f.id !== faction.id && atWar(state, faction.id, f.id) && power(f) > power(faction) * 1.5);
+  if (role === 'ruler' && menace) {
+    if (relationOf(state, menace.id, faction.id).score >= DIPLOMACY_RULES.truce_accept_score) {
+      return [{ name: 'propose_treaty', args: { target_faction_id: menace.id, duration_days: DIPLOMACY_RULES.default_days } }];
+    }
+    if (faction.resources.gold >= 100) {
+      return [{ name: 'pay_tribute', args: { target_faction_id: menace.id, gold_per_day: 5, duration_days: 10 } }];
+    }
+  }
+
+  // Rulers decide on war; they and their generals see it through.
+  if (commands && weakest && weakestTarget) {
+    const armies = (state.armies || []).filter(a => a.faction_id === faction.id);
+    const defenders = power(weakest);
+    // Treaties are only broken for an overwhelming advantage.
+    const bound = activeTreaties(state, faction.id, weakest.id).length > 0 && power(faction) < defenders * 3;
+    if (role === 'ruler' && !atWar(state, faction.id, weakest.id) && !bound && power(faction) * 0.8 > defenders * 1.2) {
+      return [{ name: 'declare_war', args: { target_faction_id: weakest.id } }];
+    }
+    const idle = armies.find(a => a.status === 'garrisoned' && a.troops * faction.military.quality > defenders * 1.2);
+    if (idle && atWar(state, faction.id, weakest.id)) return [{ name: 'move_army', args: { army_id: idle.id, location_id: weakestTarget.id } }];
+    const levy = Math.floor(faction.military.troops * 0.8);
+    if (atWar(state, faction.id, weakest.id) && !armies.some(a => a.status !== 'garrisoned') && levy >= ARMY_RULES.min_troops && levy * faction.military.quality > defenders * 1.2) {
+      const muster = [...ownLocations].sort((a, b) =>
+        (findPath(state, a, weakestTarget)?.days ?? Infinity) - (findPath(state, b, weakestTarget)?.days ?? Infinity))[0];
+      if (muster) return [{ name: 'raise_army', args: { location_id: muster.id, troops: levy } }];
+    }
+  }
+
+  const hasLaw = (id: string) => faction.laws.some(l => l.id === id);
+  const decree = (law_id: string, args: Record<string, number>, text: string) =>
+    [{ name: 'enact_law', args: { law_id, ...args, text: `${rng.pick(DECREE_OPENINGS)}: ${text}` } }];
+  const unrest = Math.max(0, ...ownLocations.map(l => l.unrest));
+  if (role === 'ruler') {
+    if (unrest > 60 && !hasLaw('curfew')) return decree('curfew', { enforcement: 70 }, 'none shall walk the streets after dark.');
+    if (unrest < 20 && hasLaw('curfew')) return [{ name: 'repeal_law', args: { law_id: 'curfew' } }];
+    if (faction.resources.gold < 40 && !hasLaw('tax_rate')) return decree('tax_rate', { level: 1.5, enforcement: rng.int(30, 80) }, 'the tithe is raised by half.');
+    if (state.factions.some(f => atWar(state, faction.id, f.id)) && !hasLaw('conscription')) {
+      return decree('conscription', { level: 1, enforcement: 60 }, 'every household shall send one to the muster.');
+    }
+  }
+  if (role === 'merchant' && !hasLaw('trade_tariff') && ownLocations.some(l => l.buildings.some(b => b.type === 'market'))) {
+    return decree('trade_tariff', { level: 0.2, enforcement: rng.int(30, 80) }, 'foreign caravans pay a fifth of their gains at our gates.');
+  }
+
+  const here = state.map.locations.find(l => l.id === manager.location_id);
+  const journey = (targets: Location[]) => manager.travel ? undefined : targets
+    .map(l => ({ l, days: findLocationPath(state, manager.location_id, l.id)?.days ?? Infinity }))
+    .filter(t => t.days < Infinity)
+    .sort((a, b) => a.days - b.days)[0]?.l;
+
+  // Priests tend the most troubled of their own settlements; spies work the enemy's.
+  if (role === 'priest' && faction.resources.gold >= INTRIGUE_RULES.preach_gold + 10) {
+    if (here?.faction_id === faction.id && here.unrest > 20) return [{ name: 'preach', args: { location_id: here.id } }];
+    const troubled = journey(ownLocations.filter(l => l.id !== manager.location_id && l.unrest > 40));
+    if (troubled) return [{ name: 'travel', args: { location_id: troubled.id } }];
+  }
+  if (role === 'spy' && faction.resources.gold >= INTRIGUE_RULES.incite_gold + 20) {
+    const hostile = (id: string | null) => !!id && id !== faction.id && (atWar(state, faction.id, id) || relationOf(state, faction.id, id).score < 0);
+    if (here && hostile(here.faction_id)) return [{ name: 'incite_unrest', args: { location_id: here.id } }];
+    const mark = journey(state.map.locations.filter(l => hostile(l.faction_id)));
+    if (mark) return [{ name: 'travel', args: { location_id: mark.id } }];
+  }
+
+  const friend = role === 'merchant' ? state.factions.find(f => f.id !== faction.id
+    && !atWar(state, faction.id, f.id)
+    && !activeTreaties(state, faction.id, f.id, 'alliance').length
+    && relationOf(state, f.id, faction.id).score >= DIPLOMACY_RULES.alliance_accept_score) : undefined;
+  if (friend && rng.chance(0.3)) {
+    return [{ name: 'form_alliance', args: { target_faction_id: friend.id, duration_days: DIPLOMACY_RULES.default_days } }];
+  }
+
+  // Merchants and priests ship relief they can spare, priests vow to calm their own towns,
+  // and commanders take on bounties against enemies they already fight.
+  const ownerOf = (locationId: string) => state.map.locations.find(l => l.id === locationId)?.faction_id || null;
+  const bounty = openQuests(state).find(q => q.giver_npc_id !== manager.id && q.objectives.some(o =>
+    o.kind === 'deliver' ? (role === 'merchant' || role === 'priest') && (!q.taken_by || q.taken_by === manager.id)
+      && faction.resources[o.commodity] >= o.amount - o.delivered + 50 && !atWar(state, faction.id, ownerOf(o.location_id))
+    : o.kind === 'reduce_unrest' ? role === 'priest' && !q.taken_by && ownerOf(o.location_id) === faction.id
+    : commands && !q.taken_by && atWar(state, faction.id, o.target_faction_id)));
+  if (bounty) {
+    return [{ name: bounty.objectives.some(o => o.kind === 'deliver') ? 'deliver_goods' : 'accept_quest', args: { quest_id: bounty.id } }];
+  }
+
+  const opportunity = role === 'merchant' ? tradeOpportunities(state, faction.id, 1)[0] : undefined;
+  if (opportunity && faction.resources.gold >= TRADE_RULES.route_setup_gold) {
+    const { commodity, from_location_id, to_location_id } = opportunity;
+    return [{ name: 'open_trade_route', args: { from_location_id, to_location_id, commodity, volume: 10 } }];
+  }
+
+  const home = ownLocations.find(l => l.id === manager.location_id) || ownLocations[0];
+  const builds = commands || role === 'merchant';
+  const affordable = (cost: { gold: number; grain: number; iron: number }) =>
+    faction.resources.gold >= cost.gold + 10 && faction.resources.grain >= cost.grain && faction.resources.iron >= cost.iron;
+  const damaged = home?.buildings.find(b => b.status === 'damaged');
+  if (builds && damaged && affordable(repairCost(damaged))) {
+    return [{ name: 'repair_structure', args: { building_id: damaged.id } }];
+  }
+  if (builds && home && faction.resources.gold >= 60) {
+    const buildingType: BuildingType = role === 'general'
+      ? (home.defense < 30 ? 'wall' : home.buildings.some(b => b.type === 'barracks') ? 'watchtower' : 'barracks')
+      : faction.resources.grain < 80 ? 'farm'
+      : home.defense < 30 ? 'wall'
+      : home.unrest > 50 ? 'inn'
+      : role === 'merchant' ? (home.buildings.some(b => b.type === 'workshop') ? 'market' : 'workshop')
+      : rng.pick<BuildingType>(['market', 'farm', 'workshop', 'barracks', 'wall', 'inn', 'watchtower']);
+    const existing = home.buildings.find(b => b.type === buildingType);
+    if (existing) {
+      if (existing.status === 'active' && existing.level < BUILDING_CATALOG[buildingType].max_level && affordable(buildCost(buildingType, existing.level + 1))) {
+        return [{ name: 'upgrade_structure', args: { building_id: existing.id } }];
+      }
+    } else if (home.buildings.length < buildingSlots(home) && affordable(buildCost(buildingType, 1))) {
+      return [{ name: 'build_structure', args: { location_id: home.id, building_type: buildingType } }];
+    }
+  }
+
+  const market = [...state.map.locations]
+    .filter(l => l.id !== manager.location_id)
+    .sort((a, b) => b.prosperity - a.prosperity)[0];
+  if (role === 'merchant' && !manager.travel && market && rng.chance(0.4)) {
+    return [{ name: 'travel', args: { location_id: market.id } }];
+  }
+
+  const tool = toolDb?.tools.length ? rng.pick(toolDb.tools) : null;
+  if (tool && home && rng.chance(0.5)) {
+    return [{ name: 'execute_tool', args: { tool_id: tool.id, arguments: { location_id: home?.id, faction_id: faction.id } } }];
+  }
+  return [];
+};
+
+/**
+ * One deed per turn, with a look at the place it concerns first. A call that failed is not
+ * repeated; the agent gives up for the day instead.
+ */
+export const mockManagerDecision = (manager: NPC, state: WorldState, toolDb?: ToolDB, steps: AgentStep[] = []): { name: string; args: any }[] => {
+  if (steps.some(s => s.outputs?.success && !isQueryTool(s.tool))) return [];
+  const tried = new Set(steps.map(s => `${s.tool}:${JSON.stringify(s.inputs)}`));
+  const calls = decide(manager, state, toolDb).filter(call => !tried.has(`${call.name}:${JSON.stringify(call.args)}`));
+  const target = calls[0]?.args?.location_id;
+  if (target && !steps.some(s => s.tool === 'get_location' && s.inputs?.location_id === target)) {
+    return [{ name: 'get_location', args: { location_id: target } }];
+  }
+  return calls;
+};
+
+const describeCall = (state: WorldState, call: { name: string; args: any }, toolDb?: ToolDB) => {
+  const args = call.args || {};
+  const place = state.map.locations.find(l => l.id === args.location_id)?.name;
+  const rival = state.factions.find(f => f.id === args.target_faction_id)?.name;
+  const detail = args.building_type || args.law_id || args.commodity
+    || (state.quests || []).find(q => q.id === args.quest_id)?.title
+    || toolDb?.tools.find(t => t.id === args.tool_id)?.name;
+  return `${titleCase(call.name.replace(/_/g, ' '))}${detail ? ` (${detail})` : ''}${place ? ` at ${place}` : rival ? ` with the ${rival}` : ''}`;
+};
+
+/**
+ * Two or three courses for the turn: the deed `decide` would pick, a look around, and
+ * doing nothing. Confidence rises with the reasons for the chosen course.
+ */
+export const mockPlan = (manager: NPC, state: WorldState, toolDb?: ToolDB) => {
+  const faction = state.factions.find(f => f.id === manager.faction_id);
+  const goal = manager.goals[0]?.text || 'the good of my people';
+  const call = decide(manager, state, toolDb)[0];
+  const notes = call ? PLAN_NOTES[call.name] || { pros: [`Serves my goal: ${goal}`], cons: ['Commits what we have'] } : undefined;
+  const candidates = [
+    ...(call && notes ? [{ plan: describeCall(state, call, toolDb), pros: [...notes.pros], cons: [...notes.cons] }] : []),
+    { plan: 'Survey the land before committing', pros: ['Looking costs nothing'], cons: ['Rivals move in the meantime'] },
+    { plan: 'Hold and keep the treasury', pros: [`Keeps ${Math.round(faction?.resources.gold ?? 0)} gold in reserve`], cons: [`"${goal}" waits another day`] }
+  ];
+  const confidence = notes ? Math.min(0.9, Math.max(0.3, 0.6 + 0.15 * (notes.pros.length - notes.cons.length))) : 0.6;
+  return { candidates, chosen_index: call ? 0 : candidates.length - 1, confidence: parseFloat(confidence.toFixed(2)) };
+};
+
+export const mockHistory = (logs: string[]) => logs.length === 1 ? logs[0] : `${logs[0]} Meanwhile, ${logs.length - 1} other deeds shaped the day.`;
+
+export const mockWorldEvent = (state: WorldState) => {
+  const rng = seededRng(state, 'world_event', state.time.epoch);
+  return { ...rng.pick(WORLD_EVENTS), type: 'world_event' };
+};
+
+/** The next template not yet archived, or null once they all are so the archive stops growing. */
+export const mockToolEvolution = (toolDb: ToolDB) => {
+  const fresh = TOOL_TEMPLATES.find(t => !toolDb.tools.some(existing => existing.name.toLowerCase() === t.name.toLowerCase()));
+  return fresh ? { ...fresh, parameters: fresh.parameters.map(p => ({ ...p })) } : null;
+};
+
+export const mockToolExecution = (state: WorldState, manager: NPC, tool: AgentTool, args: Record<string, any>) => {
+  const home = state.map.locations.find(l => l.id === args.location_id)
+    || state.map.locations.find(l => l.id === manager.location_id);
+  const calls = tool.name.startsWith('Levy Drive')
+    ? [
+        { tool: 'apply_influence', args: { target_type: 'faction', target_id: manager.faction_id, field: 'resources.grain', delta: -20 } },
+        { tool: 'apply_influence', args: { target_type: 'faction', target_id: manager.faction_id, field: 'military.troops', delta: 15 } }
+      ]
+    : home && tool.name.startsWith('Fortify Walls')
+      ? [{ tool: 'apply_influence', args: { target_type: 'location', target_id: home.id, field: 'defense', delta: 10 } }]
+      : home
+        ? [
+            { tool: 'apply_influence', args: { target_type: 'location', target_id: home.id, field: 'prosperity', delta: 5 } },
+            { tool: 'apply_influence', args: { target_type: 'location', target_id: home.id, field: 'unrest', delta: -5 } }
+          ]
+        : [];
+  return { summary: `${manager.name} enacted ${tool.name}.`, calls };
+};
+
+export const mockChatReply = (npc: NPC, userMessage: string) => {
+  const topic = userMessage.trim().split(/\s+/).slice(0, 4).join(' ');
+  const goal = npc.goals[0]?.text || 'keep my people safe';
+  return `"${topic}..." I will think on it, traveler. For now my mind is on one thing: ${goal.toLowerCase()}.`;
+};
+
+export const mockBattleNarrative = (state: WorldState, report: BattleReport) => {
+  const attacker = state.factions.find(f => f.id === report.attacker_faction_id)?.name || 'The attackers';
+  const defender = state.factions.find(f => f.id === report.defender_faction_id)?.name || 'the defenders';
+  const place = state.map.locations.find(l => l.id === report.location_id)?.name || 'the field';
+  const ratio = report.attacker_strength / Math.max(1, report.defender_strength);
+  return report.location_conquered
+    ? `${attacker} overwhelmed the defenders of ${place}.`
+    : ratio > 1 ? `${attacker} breached the outer works of ${place} but could not hold them.`
+    : `${defender} repelled the assault on ${place}.`;
+};
+
+/** Adapter exposing the rules above through the common provider interface, dispatched on `request.agent`. */
+export const createMockProvider = (): LLMProvider => ({
+  id: 'mock',
+
+  generateText: async ({ agent, context }) => {
+    if (agent === 'history') return mockHistory(context?.logs || []);
+    if (agent === 'combat' && context?.report) return mockBattleNarrative(context.state, context.report);
+    return '';
+  },
+
+  generateJson: async ({ agent, context }): Promise<any> => {
+    if (!context) return null;
+    switch (agent) {
+      case 'genesis': return mockGenesis(context.seed, context.theme, context.size);
+      case 'loading_messages': return mockLoadingMessages(context.theme);
+      case 'world_event': return mockWorldEvent(context.state);
+      case 'tool_evolution': return mockToolEvolution(context.toolDb);
+      case 'tool_execution': return mockToolExecution(context.state, context.manager, context.tool, context.args);
+      case 'planner': return mockPlan(context.manager, context.state, context.toolDb);
+      default: return null;
+    }
+  },
+
+  callTools: async ({ agent, context }) => {
+    if (agent === 'manager' && context) return mockManagerDecision(context.manager, context.state, context.toolDb, context.steps);
+    return [];
+  },
+
+  chat: async ({ context, message }) => context?.npc ? mockChatReply(context.npc, message) : '...',
+
+  generateImage: async () => null,
+  speak: async () => null
+});
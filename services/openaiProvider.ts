@@ -0,0 +1,122 @@
+import { API_KEY_REQUIRED_MESSAGE, resolveApiKey } from './aiSettings';
+import type { ProviderConfig } from './aiSettings';
+import { safeJsonParse } from './llmProvider';
+import type { LLMProvider, ToolDefinition } from './llmProvider';
+
+type OpenAIMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+type OpenAITool = {
+  type: 'function';
+  function: { name: string; description?: string; parameters: Record<string, any> };
+};
+
+const assertProviderBaseUrl = (baseUrl: string) => {
+  if (!baseUrl) {
+    throw new Error('Provider base URL is required.');
+  }
+};
+
+const toOpenAITool = (tool: ToolDefinition): OpenAITool => ({
+  type: 'function',
+  function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+});
+
+const buildMessages = (system: string | undefined, fallbackSystem: string, prompt: string): OpenAIMessage[] => [
+  { role: 'system', content: system || fallbackSystem },
+  { role: 'user', content: prompt }
+];
+
+/** Adapter for OpenAI and every backend that speaks its chat-completions protocol. */
+export const createOpenAIProvider = (provider: ProviderConfig): LLMProvider => {
+  const callOpenAIChat = async (params: {
+    messages: OpenAIMessage[];
+    tools?: OpenAITool[];
+    responseFormat?: { type: 'json_object' };
+  }) => {
+    assertProviderBaseUrl(provider.baseUrl);
+
+    const apiKey = provider.requiresKey ? resolveApiKey(provider.providerId) : null;
+    if (provider.requiresKey && !apiKey) {
+      throw new Error(API_KEY_REQUIRED_MESSAGE);
+    }
+
+    const payload: Record<string, any> = {
+      model: provider.model,
+      messages: params.messages,
+    };
+
+    if (params.tools && params.tools.length > 0) {
+      payload.tools = params.tools;
+      payload.tool_choice = 'auto';
+    }
+
+    if (params.responseFormat && provider.supportsResponseFormat) {
+      payload.response_format = params.responseFormat;
+    }
+
+    const baseUrl = provider.baseUrl.replace(/\/$/, '');
+    const endpoint = baseUrl.includes('/chat/completions')
+      ? baseUrl
+      : baseUrl.endsWith('/v1')
+        ? `${baseUrl}/chat/completions`
+        : `${baseUrl}/v1/chat/completions`;
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(errorText || `Provider error (${response.status})`);
+    }
+
+    const data = await response.json();
+    return data.choices?.[0]?.message || {};
+  };
+
+  return {
+    id: provider.providerId,
+
+    generateText: async (request) => {
+      const message = await callOpenAIChat({ messages: buildMessages(request.system, 'You are a helpful assistant.', request.prompt) });
+      return message.content || '';
+    },
+
+    generateJson: async (request) => {
+      const message = await callOpenAIChat({
+        messages: buildMessages(request.system, 'You output JSON only.', request.prompt),
+        responseFormat: { type: 'json_object' }
+      });
+      return safeJsonParse(message.content || "null", null);
+    },
+
+    callTools: async (request) => {
+      const message = await callOpenAIChat({
+        messages: buildMessages(request.system, 'You are a helpful assistant.', request.prompt),
+        tools: request.tools.map(toOpenAITool)
+      });
+      const toolCalls = message?.tool_calls || [];
+      return toolCalls.map((call: any) => ({
+        name: call.function?.name,
+        args: safeJsonParse(call.function?.arguments || "{}", {}),
+      })).filter((call: any) => call.name);
+    },
+
+    chat: async (request) => {
+      const messages: OpenAIMessage[] = [
+        { role: 'system', content: request.system },
+        ...request.history.map(h => ({ role: h.role, content: h.text })),
+        { role: 'user', content: request.message }
+      ];
+      const message = await callOpenAIChat({ messages });
+      return message.content || '';
+    },
+
+    // Image and speech generation are only wired up for Gemini.
+    generateImage: async () => null,
+    speak: async () => null
+  };
+};
@@ -0,0 +1,140 @@
+import { WorldState, TerrainType } from '../types';
+import { TERRAIN_MOVE_COSTS, NAVAL_MOVE_COST, MOVEMENT_POINTS_PER_DAY } from '../constants';
+
+export type GridPoint = { x: number; y: number };
+
+export type PathResult = {
+  path: GridPoint[];
+  cost: number;
+  days: number;
+};
+
+export type PathOptions = {
+  /** Lets the route cross water at `NAVAL_MOVE_COST` instead of treating it as impassable. */
+  naval?: boolean;
+};
+
+const NEIGHBOURS: GridPoint[] = [{ x: 0, y: -1 }, { x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 }];
+
+export const moveCost = (terrain: TerrainType, options: PathOptions = {}) => {
+  if (terrain === 'water') return options.naval ? NAVAL_MOVE_COST : Infinity;
+  return TERRAIN_MOVE_COSTS[terrain] ?? 1;
+};
+
+export const travelDays = (cost: number) => cost <= 0 ? 0 : Math.ceil(cost / MOVEMENT_POINTS_PER_DAY);
+
+/** Min-heap of [priority, tile index]; ties resolve by insertion order so results are stable. */
+const createQueue = () => {
+  const heap: [number, number, number][] = [];
+  let counter = 0;
+  const less = (a: [number, number, number], b: [number, number, number]) => a[0] < b[0] || (a[0] === b[0] && a[2] < b[2]);
+  return {
+    size: () => heap.length,
+    push: (priority: number, index: number) => {
+      heap.push([priority, index, counter++]);
+      let i = heap.length - 1;
+      while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (!less(heap[i], heap[parent])) break;
+        [heap[i], heap[parent]] = [heap[parent], heap[i]];
+        i = parent;
+      }
+    },
+    pop: (): number => {
+      const top = heap[0];
+      const last = heap.pop()!;
+      if (heap.length) {
+        heap[0] = last;
+        let i = 0;
+        while (true) {
+          const left = i * 2 + 1;
+          const right = left + 1;
+          let smallest = i;
+          if (left < heap.length && less(heap[left], heap[smallest])) smallest = left;
+          if (right < heap.length && less(heap[right], heap[smallest])) smallest = right;
+          if (smallest === i) break;
+          [heap[i], heap[smallest]] = [heap[smallest], heap[i]];
+          i = smallest;
+        }
+      }
+      return top[1];
+    }
+  };
+};
+
+/**
+ * A* over `map.tiles` with 4-way movement. Entering a tile costs its terrain's movement
+ * points; the start tile is free. Returns null when the goal is off the map or unreachable.
+ */
+export const findPath = (state: WorldState, from: GridPoint, to: GridPoint, options: PathOptions = {}): PathResult | null => {
+  const { width, height } = state.map;
+  const inBounds = (p: GridPoint) => p.x >= 0 && p.y >= 0 && p.x < width && p.y < height;
+  if (!inBounds(from) || !inBounds(to)) return null;
+
+  const costs = new Array<number>(width * height).fill(Infinity);
+  (state.map.tiles || []).forEach(tile => {
+    if (inBounds(tile)) costs[tile.y * width + tile.x] = moveCost(tile.terrain, options);
+  });
+
+  const start = from.y * width + from.x;
+  const goal = to.y * width + to.x;
+  if (start === goal) return { path: [{ x: from.x, y: from.y }], cost: 0, days: 0 };
+  if (costs[goal] === Infinity) return null;
+
+  const cheapest = Math.min(...Object.values(TERRAIN_MOVE_COSTS), options.naval ? NAVAL_MOVE_COST : Infinity);
+  const heuristic = (index: number) => (Math.abs((index % width) - to.x) + Math.abs(Math.floor(index / width) - to.y)) * cheapest;
+
+  const spent = new Array<number>(width * height).fill(Infinity);
+  const cameFrom = new Array<number>(width * height).fill(-1);
+  const open = createQueue();
+  spent[start] = 0;
+  open.push(heuristic(start), start);
+
+  while (open.size()) {
+    const current = open.pop();
+    if (current === goal) break;
+    const cx = current % width;
+    const cy = Math.floor(current / width);
+    for (const step of NEIGHBOURS) {
+      const nx = cx + step.x;
+      const ny = cy + step.y;
+      if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+      const next = ny * width + nx;
+      const total = spent[current] + costs[next];
+      if (total < spent[next]) {
+        spent[next] = total;
+        cameFrom[next] = current;
+        open.push(total + heuristic(next), next);
+      }
+    }
+  }
+
+  if (spent[goal] === Infinity) return null;
+  const path: GridPoint[] = [];
+  for (let index = goal; index !== -1; index = cameFrom[index]) {
+    path.push({ x: index % width, y: Math.floor(index / width) });
+  }
+  path.reverse();
+  return { path, cost: spent[goal], days: travelDays(spent[goal]) };
+};
+
+export const findLocationPath = (state: WorldState, fromLocationId: string, toLocationId: string, options: PathOptions = {}): PathResult | null => {
+  const from = state.map.locations.find(l => l.id === fromLocationId);
+  const to = state.map.locations.find(l => l.id === toLocationId);
+  if (!from || !to) return null;
+  return findPath(state, from, to, options);
+};
+
+/** Days an army needs from the faction's closest settlement to `locationId`, or null if unreachable. */
+export const factionReachDays = (state: WorldState, factionId: string, locationId: string): number | null => {
+  const target = state.map.locations.find(l => l.id === locationId);
+  if (!target) return null;
+  let best: number | null = null;
+  state.map.locations
+    .filter(l => l.faction_id === factionId)
+    .forEach(origin => {
+      const result = findPath(state, origin, target);
+      if (result && (best === null || result.days < best)) best = result.days;
+    });
+  return best;
+};
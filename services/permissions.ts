@@ -0,0 +1,76 @@
+import { WorldState, NPC, AgentRank, Location } from '../types';
+import { AGENT_ROLE_CATALOG, PERMISSION_RULES } from '../constants';
+import { agentRole, roleTools } from './scheduler';
+import { QUERY_TOOL_NAMES } from './queries';
+
+type ToolCall = { name: string; args: any };
+
+export const agentRank = (state: WorldState, npc: NPC): AgentRank =>
+  state.factions.some(f => f.id === npc.faction_id && f.leader_npc_id === npc.id) ? 'sovereign' : 'officer';
+
+/**
+ * Tools an NPC may call: those of its role, plus everything a ruler may do if it leads its
+ * faction. Officers never get the tools that commit the whole faction; anyone may observe.
+ */
+export const permittedTools = (state: WorldState, npc: NPC): string[] => {
+  if (agentRank(state, npc) === 'sovereign') return [...new Set([...roleTools(npc), ...AGENT_ROLE_CATALOG.ruler.tools, ...QUERY_TOOL_NAMES])];
+  return [...roleTools(npc).filter(tool => !PERMISSION_RULES.sovereign_tools.includes(tool)), ...QUERY_TOOL_NAMES];
+};
+
+/** Tiles between `location` and the nearest land `factionId` holds, or null if it holds none. */
+export const frontierDistance = (state: WorldState, factionId: string, location: Pick<Location, 'x' | 'y'>): number | null => {
+  let best: number | null = null;
+  state.map.tiles.forEach(tile => {
+    if (tile.owner_faction_id !== factionId) return;
+    const distance = Math.max(Math.abs(tile.x - location.x), Math.abs(tile.y - location.y));
+    if (best === null || distance < best) best = distance;
+  });
+  return best;
+};
+
+/**
+ * Why `npc` may not make this call, or null if it may. `checkTool` is off for the primitives
+ * a shared tool expands into, which answer to the parameter constraints only.
+ */
+export const permissionDenial = (state: WorldState, npc: NPC, call: ToolCall, checkTool = true): string | null => {
+  const args = call.args || {};
+  const rank = agentRank(state, npc);
+  const role = agentRole(npc);
+  const faction = state.factions.find(f => f.id === npc.faction_id);
+  if (!faction) return `${npc.name} answers to no faction`;
+  if (checkTool && !permittedTools(state, npc).includes(call.name)) {
+    return roleTools(npc).includes(call.name)
+      ? `${call.name} is reserved for the leader of the ${faction.name}`
+      : `A ${AGENT_ROLE_CATALOG[role].name.toLowerCase()} may not use ${call.name}`;
+  }
+
+  const location = (id: any) => state.map.locations.find(l => l.id === id);
+  const held = (id: any) => location(id)?.faction_id === faction.id;
+  const buildingSite = (id: any) => state.map.locations.find(l => (l.buildings || []).some(b => b.id === id));
+
+  if (call.name === 'build_structure' || call.name === 'raise_army') {
+    if (!held(args.location_id)) return `${location(args.location_id)?.name || args.location_id} is not held by the ${faction.name}`;
+  } else if (call.name === 'upgrade_structure' || call.name === 'repair_structure') {
+    const site = buildingSite(args.building_id);
+    if (site && site.faction_id !== faction.id) return `That building stands in ${site.name}, which the ${faction.name} does not hold`;
+  } else if (call.name === 'move_army' || call.name === 'disband_army') {
+    const army = (state.armies || []).find(a => a.id === args.army_id);
+    if (army && army.faction_id !== faction.id) return `${army.name} does not answer to the ${faction.name}`;
+    const target = call.name === 'move_army' ? location(args.location_id) : undefined;
+    if (target?.faction_id && target.faction_id !== faction.id) {
+      const distance = frontierDistance(state, faction.id, target);
+      if (distance === null || distance > PERMISSION_RULES.frontier_tiles) return `${target.name} does not border the land of the ${faction.name}`;
+    }
+  } else if ((call.name === 'enact_law' || call.name === 'repeal_law') && rank === 'officer') {
+    const laws = PERMISSION_RULES.role_laws[role];
+    if (laws && !laws.includes(args.law_id)) return `A ${AGENT_ROLE_CATALOG[role].name.toLowerCase()} may only decree ${laws.join(', ')}`;
+  } else if (call.name === 'open_trade_route') {
+    if (!held(args.from_location_id)) return `Caravans must leave from a settlement the ${faction.name} holds`;
+  } else if (call.name === 'apply_influence') {
+    const own = args.target_type === 'faction' ? args.target_id === faction.id
+      : args.target_type === 'location' ? held(args.target_id)
+      : state.npcs.find(n => n.id === args.target_id)?.faction_id === faction.id;
+    if (!own) return `Shared tools may only shape the ${faction.name}'s own people, lands and treasury`;
+  }
+  return null;
+};
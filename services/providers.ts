@@ -0,0 +1,29 @@
+import { getProviderConfig } from './aiSettings';
+import { getTranscriptMode, transcribe } from './transcript';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAIProvider } from './openaiProvider';
+import { createMockProvider } from './mockProvider';
+import type { ChatRequest, LLMProvider } from './llmProvider';
+
+const chatTranscriptKey = (request: ChatRequest) => {
+  return [request.system, ...request.history.map(h => `${h.role === 'user' ? 'user' : 'model'}: ${h.text}`), `user: ${request.message}`].join('\n');
+};
+
+/** Routes every text call of `provider` through the record/replay transcript. */
+const withTranscript = (provider: LLMProvider): LLMProvider => ({
+  id: provider.id,
+  generateText: request => transcribe(request.agent, request.prompt, () => provider.generateText(request)),
+  generateJson: request => transcribe(request.agent, request.prompt, () => provider.generateJson(request)),
+  callTools: request => transcribe(request.agent, request.prompt, () => provider.callTools(request)),
+  chat: request => transcribe(request.agent, chatTranscriptKey(request), () => provider.chat(request)),
+  // Media is cosmetic and too heavy to record, so replays simply go without it.
+  generateImage: prompt => getTranscriptMode() === 'replay' ? Promise.resolve(null) : provider.generateImage(prompt),
+  speak: (text, voiceName) => getTranscriptMode() === 'replay' ? Promise.resolve(null) : provider.speak(text, voiceName)
+});
+
+export const getLLMProvider = (): LLMProvider => {
+  const config = getProviderConfig();
+  if (config.providerId === 'gemini') return withTranscript(createGeminiProvider());
+  if (config.providerId === 'mock') return withTranscript(createMockProvider());
+  return withTranscript(createOpenAIProvider(config));
+};
@@ -0,0 +1,162 @@
+import { WorldState, NPC, Location } from '../types';
+import { findLocationPath } from './pathfinding';
+import { activeTreaties, relationOf } from './diplomacy';
+import { fieldTroops } from './armies';
+import { lastLedgerEntry, ledgerNet } from './treasury';
+import { retrieveMemories } from './memoryService';
+
+type QueryResult = { success: boolean; message: string; data: any };
+
+/** Observation tools every agent may call. They read the world and never change it. */
+export const QUERY_TOOL_NAMES = [
+  'get_location', 'list_locations_owned', 'get_faction_status', 'get_market_prices', 'find_path', 'get_relationships', 'recall_memory'
+];
+
+export const isQueryTool = (name: string) => QUERY_TOOL_NAMES.includes(name);
+
+const round2 = (value: number) => parseFloat(value.toFixed(2));
+
+const miss = (message: string): QueryResult => ({ success: false, message, data: null });
+
+const factionName = (state: WorldState, id: string | null) => state.factions.find(f => f.id === id)?.name || 'nobody';
+
+const garrison = (state: WorldState, location: Location) =>
+  (state.armies || []).filter(a => a.location_id === location.id && a.status === 'garrisoned').reduce((sum, a) => sum + a.troops, 0);
+
+const getLocation = (state: WorldState, args: any): QueryResult => {
+  const location = state.map.locations.find(l => l.id === args.location_id);
+  if (!location) return miss(`No location ${args.location_id}; list_locations_owned names the real ones`);
+  const data = {
+    id: location.id,
+    name: location.name,
+    type: location.type,
+    owner: location.faction_id,
+    x: location.x,
+    y: location.y,
+    population: location.population,
+    prosperity: location.prosperity,
+    unrest: location.unrest,
+    defense: location.defense,
+    garrison: garrison(state, location),
+    buildings: (location.buildings || []).map(b => ({ id: b.id, type: b.type, level: b.level, status: b.status })),
+    stockpile: Object.fromEntries(Object.entries(location.stockpile || {}).map(([id, amount]) => [id, Math.round(amount)]))
+  };
+  return {
+    success: true,
+    message: `${location.name} [${location.id}], ${location.type} of ${factionName(state, location.faction_id)}: pop ${location.population}, prosperity ${location.prosperity}, unrest ${location.unrest}, defense ${location.defense}, garrison ${data.garrison}, ${data.buildings.length} buildings`,
+    data
+  };
+};
+
+const listLocationsOwned = (state: WorldState, agent: NPC, args: any): QueryResult => {
+  const factionId = args.faction_id || agent.faction_id;
+  if (!state.factions.some(f => f.id === factionId)) return miss(`No faction ${factionId}`);
+  const data = state.map.locations
+    .filter(l => l.faction_id === factionId)
+    .map(l => ({ id: l.id, name: l.name, type: l.type, population: l.population, unrest: l.unrest, buildings: (l.buildings || []).length }));
+  return {
+    success: true,
+    message: `${factionName(state, factionId)} holds ${data.length ? data.map(l => `${l.name} [${l.id}]`).join(', ') : 'nothing'}`,
+    data
+  };
+};
+
+const getFactionStatus = (state: WorldState, agent: NPC, args: any): QueryResult => {
+  const faction = state.factions.find(f => f.id === (args.faction_id || agent.faction_id));
+  if (!faction) return miss(`No faction ${args.faction_id}`);
+  const books = lastLedgerEntry(faction);
+  const armies = (state.armies || []).filter(a => a.faction_id === faction.id);
+  const data = {
+    id: faction.id,
+    name: faction.name,
+    archetype: faction.archetype,
+    leader_npc_id: faction.leader_npc_id,
+    resources: faction.resources,
+    reserve_troops: faction.military.troops,
+    field_troops: fieldTroops(state, faction.id),
+    quality: faction.military.quality,
+    reputation: faction.reputation ?? 50,
+    armies: armies.map(a => ({ id: a.id, name: a.name, troops: a.troops, status: a.status, location_id: a.location_id, destination_location_id: a.destination_location_id })),
+    laws: faction.laws.map(l => ({ id: l.id, level: l.level, enforcement: l.enforcement })),
+    yesterday_net: books ? ledgerNet(books) : null,
+    deficits: books?.deficits || []
+  };
+  return {
+    success: true,
+    message: `${faction.name}: G${round2(faction.resources.gold)}/Gr${round2(faction.resources.grain)}/Fe${round2(faction.resources.iron)}, ${faction.military.troops} in reserve and ${data.field_troops} in ${armies.length} armies, ${faction.laws.length} laws, reputation ${data.reputation}`,
+    data
+  };
+};
+
+const getMarketPrices = (state: WorldState, args: any): QueryResult => {
+  const locations = args.location_id ? state.map.locations.filter(l => l.id === args.location_id) : state.map.locations;
+  if (!locations.length) return miss(`No location ${args.location_id}`);
+  const data = locations.map(l => ({
+    id: l.id,
+    name: l.name,
+    prices: Object.fromEntries(Object.entries(l.prices || {}).map(([id, price]) => [id, round2(price)])),
+    stock: Object.fromEntries(Object.entries(l.stockpile || {}).map(([id, amount]) => [id, Math.round(amount)]))
+  }));
+  return {
+    success: true,
+    message: data.map(l => `${l.name}: ${Object.entries(l.prices).map(([id, price]) => `${id} ${price}G`).join(', ') || 'no market'}`).join('; '),
+    data
+  };
+};
+
+const findPathQuery = (state: WorldState, agent: NPC, args: any): QueryResult => {
+  const fromId = args.from_location_id || agent.location_id;
+  const from = state.map.locations.find(l => l.id === fromId);
+  const to = state.map.locations.find(l => l.id === args.to_location_id);
+  if (!from || !to) return miss(`No location ${from ? args.to_location_id : fromId}`);
+  const route = findLocationPath(state, from.id, to.id);
+  if (!route) return { success: true, message: `No overland path from ${from.name} to ${to.name}`, data: { reachable: false } };
+  return {
+    success: true,
+    message: `${from.name} to ${to.name}: ${route.days} days over ${route.path.length - 1} tiles`,
+    data: { reachable: true, days: route.days, tiles: route.path.length - 1 }
+  };
+};
+
+const getRelationships = (state: WorldState, agent: NPC, args: any): QueryResult => {
+  const factionId = args.faction_id || agent.faction_id;
+  if (!state.factions.some(f => f.id === factionId)) return miss(`No faction ${factionId}`);
+  const data = state.factions.filter(f => f.id !== factionId).map(f => {
+    const relation = relationOf(state, factionId, f.id);
+    return {
+      faction_id: f.id,
+      name: f.name,
+      stance: relation.type,
+      score: relation.score,
+      their_score: relationOf(state, f.id, factionId).score,
+      treaties: activeTreaties(state, factionId, f.id).map(t => ({ kind: t.kind, expires_epoch: t.expires_epoch }))
+    };
+  });
+  return {
+    success: true,
+    message: data.map(r => `${r.name} ${r.stance} ${r.score} (theirs ${r.their_score})${r.treaties.length ? ` ${r.treaties.map(t => t.kind).join('/')}` : ''}`).join('; ') || 'No other factions',
+    data
+  };
+};
+
+const recallMemory = (agent: NPC, args: any): QueryResult => {
+  const memories = retrieveMemories(agent, String(args.query || ''), Math.min(5, Math.max(1, Number(args.limit) || 3)));
+  return {
+    success: true,
+    message: memories.length ? memories.map(m => m.text).join(' | ') : 'Nothing comes to mind',
+    data: memories.map(m => ({ id: m.id, text: m.text, strength: m.strength, created_epoch: m.created_epoch }))
+  };
+};
+
+/** Answers one observation call. Unknown ids fail with a hint rather than a guess. */
+export const runQuery = (state: WorldState, agent: NPC, call: { name: string; args: any }): QueryResult => {
+  const args = call.args || {};
+  if (call.name === 'get_location') return getLocation(state, args);
+  if (call.name === 'list_locations_owned') return listLocationsOwned(state, agent, args);
+  if (call.name === 'get_faction_status') return getFactionStatus(state, agent, args);
+  if (call.name === 'get_market_prices') return getMarketPrices(state, args);
+  if (call.name === 'find_path') return findPathQuery(state, agent, args);
+  if (call.name === 'get_relationships') return getRelationships(state, agent, args);
+  if (call.name === 'recall_memory') return recallMemory(agent, args);
+  return miss(`Unknown query ${call.name}`);
+};
@@ -0,0 +1,285 @@
+import { WorldState, NPC, Quest, QuestObjective, EventLogEntry, Location } from '../types';
+import { QUEST_RULES } from '../constants';
+import { createRng } from './rng';
+import type { Rng } from './rng';
+import { localPrice, stockTarget } from './markets';
+import { atWar, relationOf } from './diplomacy';
+import { fieldTroops } from './armies';
+import { addMemoryToNPC } from './memoryService';
+import { agentRole } from './scheduler';
+
+type ActionResult = { success: boolean; message: string; updates: Partial<WorldState> | null };
+
+/** Stands for the person at the screen when they take on a quest. */
+export const PLAYER_ID = 'player';
+
+const round2 = (value: number) => parseFloat(value.toFixed(2));
+
+export const openQuests = (state: WorldState) => (state.quests || []).filter(q => q.status === 'open');
+
+const placeName = (state: WorldState, id: string) => state.map.locations.find(l => l.id === id)?.name || id;
+
+const factionName = (state: WorldState, id: string) => state.factions.find(f => f.id === id)?.name || id;
+
+export const describeObjective = (state: WorldState, objective: QuestObjective) => {
+  if (objective.kind === 'deliver') return `deliver ${objective.amount} ${objective.commodity} to ${placeName(state, objective.location_id)} (${objective.delivered} so far)`;
+  if (objective.kind === 'reduce_unrest') return `bring unrest in ${placeName(state, objective.location_id)} below ${objective.below}`;
+  return `kill ${objective.troops} of the ${factionName(state, objective.target_faction_id)}'s troops (${objective.defeated} so far)`;
+};
+
+const objectiveMet = (state: WorldState, objective: QuestObjective) => {
+  if (objective.kind === 'deliver') return objective.delivered >= objective.amount;
+  if (objective.kind === 'reduce_unrest') return (state.map.locations.find(l => l.id === objective.location_id)?.unrest ?? 100) < objective.below;
+  return objective.defeated >= objective.troops;
+};
+
+/** An objective that can no longer be met because its place or target is gone. */
+const objectiveVoid = (state: WorldState, objective: QuestObjective) => objective.kind === 'defeat_troops'
+  ? !state.factions.some(f => f.id === objective.target_faction_id)
+  : !state.map.locations.some(l => l.id === objective.location_id);
+
+/** Takes on an open quest for an NPC or the player; the reward goes to whoever holds it when it is done. */
+export const acceptQuest = (state: WorldState, takerId: string, inputs: { quest_id: string }): ActionResult => {
+  const quest = openQuests(state).find(q => q.id === inputs.quest_id);
+  if (!quest) return { success: false, message: `No open quest ${inputs.quest_id}`, updates: null };
+  if (quest.giver_npc_id === takerId) return { success: false, message: 'Cannot take on your own quest', updates: null };
+  if (quest.taken_by && quest.taken_by !== takerId) return { success: false, message: `"${quest.title}" is already taken`, updates: null };
+  const quests = state.quests.map(q => q.id === quest.id ? { ...q, taken_by: takerId } : q);
+  return { success: true, message: `Took on the quest "${quest.title}"`, updates: { quests } };
+};
+
+/**
+ * Ships goods to the settlement a delivery quest names, from the faction's stores for an NPC
+ * or from the player's own. Anyone not at war with the settlement's rulers may deliver on a
+ * quest nobody else holds; a deliverer takes on the quest if nobody has yet.
+ */
+export const deliverQuestGoods = (state: WorldState, takerId: string, inputs: { quest_id: string; amount?: number }): ActionResult => {
+  const quest = openQuests(state).find(q => q.id === inputs.quest_id);
+  if (!quest) return { success: false, message: `No open quest ${inputs.quest_id}`, updates: null };
+  if (quest.giver_npc_id === takerId) return { success: false, message: 'Cannot take on your own quest', updates: null };
+  if (quest.taken_by && quest.taken_by !== takerId) return { success: false, message: `"${quest.title}" is already taken`, updates: null };
+  const index = quest.objectives.findIndex(o => o.kind === 'deliver' && o.delivered < o.amount);
+  const objective = quest.objectives[index];
+  if (!objective || objective.kind !== 'deliver') return { success: false, message: `"${quest.title}" needs no deliveries`, updates: null };
+  const player = takerId === PLAYER_ID;
+  const npc = player ? undefined : state.npcs.find(n => n.id === takerId);
+  const faction = state.factions.find(f => f.id === npc?.faction_id);
+  if (!player && !faction) return { success: false, message: 'Faction not found', updates: null };
+  const destination = state.map.locations.find(l => l.id === objective.location_id);
+  if (faction && destination && atWar(state, faction.id, destination.faction_id)) {
+    return { success: false, message: `We are at war with the masters of ${destination.name}`, updates: null };
+  }
+
+  const stores = faction ? faction.resources : state.player.resources;
+  const wanted = Number(inputs.amount ?? objective.amount - objective.delivered);
+  const amount = round2(Math.min(objective.amount - objective.delivered, stores[objective.commodity], Number.isFinite(wanted) ? wanted : 0));
+  if (amount <= 0) return { success: false, message: `No ${objective.commodity} to spare for "${quest.title}"`, updates: null };
+
+  const spent = { ...stores, [objective.commodity]: round2(stores[objective.commodity] - amount) };
+  const locations = state.map.locations.map(l => l.id === objective.location_id
+    ? { ...l, stockpile: { ...l.stockpile, [objective.commodity]: round2((l.stockpile?.[objective.commodity] || 0) + amount) } }
+    : l);
+  const objectives = quest.objectives.map((o, i) => i === index ? { ...objective, delivered: round2(objective.delivered + amount) } : o);
+  const quests = state.quests.map(q => q.id === quest.id ? { ...q, objectives, taken_by: takerId } : q);
+  return {
+    success: true,
+    message: `Delivered ${amount} ${objective.commodity} to ${placeName(state, objective.location_id)} for "${quest.title}"`,
+    updates: {
+      ...(faction
+        ? { factions: state.factions.map(f => f.id === faction.id ? { ...f, resources: spent } : f) }
+        : { player: { ...state.player, resources: spent } }),
+      map: { ...state.map, locations },
+      quests
+    }
+  };
+};
+
+/** Counts the day's battle losses, by faction, towards open quests to defeat that faction's troops. */
+export const creditCasualties = (state: WorldState, casualties: Record<string, number>): Partial<WorldState> => {
+  if (!Object.keys(casualties).length || !openQuests(state).some(q => q.objectives.some(o => o.kind === 'defeat_troops'))) return {};
+  const quests = state.quests.map(quest => quest.status !== 'open' ? quest : {
+    ...quest,
+    objectives: quest.objectives.map(o => o.kind === 'defeat_troops' && casualties[o.target_faction_id]
+      ? { ...o, defeated: o.defeated + casualties[o.target_faction_id] }
+      : o)
+  });
+  return { quests };
+};
+
+/** Where an NPC looks after: where they stand if their faction holds it, otherwise the faction's first settlement. */
+const homeOf = (state: WorldState, npc: NPC): Location | undefined => {
+  const here = state.map.locations.find(l => l.id === npc.location_id);
+  return here && here.faction_id === npc.faction_id ? here : state.map.locations.find(l => l.faction_id === npc.faction_id);
+};
+
+/** The faction an NPC would most like to see bled: an enemy at war with theirs, else whoever they like least. */
+const foeOf = (state: WorldState, factionId: string) => state.factions
+  .filter(f => f.id !== factionId)
+  .sort((a, b) => Number(atWar(state, factionId, b.id)) - Number(atWar(state, factionId, a.id))
+    || relationOf(state, factionId, a.id).score - relationOf(state, factionId, b.id).score)[0];
+
+const reliefObjective = (location: Location, commodity: 'grain' | 'iron'): QuestObjective => ({
+  kind: 'deliver',
+  commodity,
+  amount: Math.max(1, Math.round(stockTarget(location, commodity) * QUEST_RULES.relief_share)),
+  location_id: location.id,
+  delivered: 0
+});
+
+const defeatObjective = (state: WorldState, targetId: string): QuestObjective => {
+  const target = state.factions.find(f => f.id === targetId);
+  const strength = (target?.military.troops || 0) + fieldTroops(state, targetId);
+  return { kind: 'defeat_troops', target_faction_id: targetId, troops: Math.max(QUEST_RULES.min_defeat, Math.round(strength * QUEST_RULES.defeat_share)), defeated: 0 };
+};
+
+/** Reads what a goal is about from its wording and turns it into something that can be checked. */
+const objectiveForGoal = (state: WorldState, npc: NPC, text: string): QuestObjective | null => {
+  const home = homeOf(state, npc);
+  const lower = text.toLowerCase();
+  if (/war|defeat|conquer|enemy|enemies|destroy|crush|army|defend|protect|raid/.test(lower)) {
+    const foe = foeOf(state, npc.faction_id);
+    return foe && atWar(state, npc.faction_id, foe.id) ? defeatObjective(state, foe.id) : null;
+  }
+  if (!home) return null;
+  if (/peace|order|calm|unrest|stabil|law|loyal|unite/.test(lower)) {
+    return home.unrest > QUEST_RULES.calm_to / 2 ? { kind: 'reduce_unrest', location_id: home.id, below: Math.round(home.unrest / 2) } : null;
+  }
+  if (/iron|forge|build|craft|wall|fortif|smith/.test(lower)) return reliefObjective(home, 'iron');
+  return reliefObjective(home, 'grain');
+};
+
+const rewardFor = (state: WorldState, giver: NPC, objective: QuestObjective) => {
+  const location = objective.kind !== 'defeat_troops' ? state.map.locations.find(l => l.id === objective.location_id) : undefined;
+  const value = objective.kind === 'deliver' ? objective.amount * (location ? localPrice(state, location, objective.commodity) : 1) * QUEST_RULES.reward_markup
+    : objective.kind === 'defeat_troops' ? objective.troops * QUEST_RULES.reward_per_troop
+    : QUEST_RULES.unrest_reward;
+  return round2(Math.min(value, Math.max(0, giver.resources?.gold || 0) * QUEST_RULES.max_reward_share));
+};
+
+const posting = (state: WorldState, giver: NPC, title: string, objective: QuestObjective, rng: Rng): Quest => ({
+  id: rng.id(`quest_${state.time.epoch}`),
+  title,
+  status: 'open',
+  giver_npc_id: giver.id,
+  objective: `${giver.name} asks you to ${describeObjective(state, objective).replace(/ \(0 so far\)$/, '')}.`,
+  objectives: [objective],
+  reward: { gold: rewardFor(state, giver, objective) },
+  taken_by: null,
+  issued_epoch: state.time.epoch,
+  expires_epoch: state.time.epoch + QUEST_RULES.duration_days,
+  resolved_epoch: null
+});
+
+/**
+ * Quests the world asks for today. Settlements short of grain want relief, restless ones want
+ * calm, and merchants whose caravans were cut off want the enemy bled; each is posted by an
+ * NPC of the ruling faction who can pay. NPCs also turn their most pressing goal into a
+ * quest now and then. Nobody keeps more than one quest open.
+ */
+const postQuests = (state: WorldState, rng: Rng): Quest[] => {
+  const posted: Quest[] = [];
+  const open = () => [...openQuests(state), ...posted];
+  const busy = (npc: NPC) => open().some(q => q.giver_npc_id === npc.id);
+  const canPost = () => open().length < QUEST_RULES.max_open;
+  const giverAt = (location: Location) => {
+    const locals = state.npcs.filter(n => n.faction_id === location.faction_id && !busy(n) && (n.resources?.gold || 0) > 0);
+    return locals.find(n => n.location_id === location.id) || locals.find(n => state.factions.some(f => f.leader_npc_id === n.id));
+  };
+  const asked = (location: Location, kind: QuestObjective['kind']) =>
+    open().some(q => q.objectives.some(o => o.kind === kind && o.kind !== 'defeat_troops' && o.location_id === location.id));
+
+  state.map.locations.forEach(location => {
+    if (!location.faction_id || !canPost()) return;
+    const fed = (location.stockpile?.grain || 0) / Math.max(1, stockTarget(location, 'grain'));
+    if (fed < QUEST_RULES.relief_share && !asked(location, 'deliver')) {
+      const giver = giverAt(location);
+      if (giver) posted.push(posting(state, giver, `Bread for ${location.name}`, reliefObjective(location, 'grain'), rng));
+    }
+    if (canPost() && location.unrest > QUEST_RULES.unrest_above && !asked(location, 'reduce_unrest')) {
+      const giver = giverAt(location);
+      if (giver) posted.push(posting(state, giver, `Quiet the Streets of ${location.name}`, { kind: 'reduce_unrest', location_id: location.id, below: QUEST_RULES.calm_to }, rng));
+    }
+  });
+
+  state.map.routes.filter(r => r.status === 'disrupted').forEach(route => {
+    if (!canPost()) return;
+    const raiders = (state.armies || []).find(a => a.status === 'besieging'
+      && (a.location_id === route.from_location_id || a.location_id === route.to_location_id)
+      && atWar(state, a.faction_id, route.owner_faction_id));
+    const foe = raiders ? state.factions.find(f => f.id === raiders.faction_id) : foeOf(state, route.owner_faction_id);
+    const giver = state.npcs.find(n => n.faction_id === route.owner_faction_id && agentRole(n) === 'merchant' && !busy(n) && (n.resources?.gold || 0) > 0);
+    if (!foe || !giver || !atWar(state, route.owner_faction_id, foe.id)) return;
+    if (open().some(q => q.objectives.some(o => o.kind === 'defeat_troops' && o.target_faction_id === foe.id))) return;
+    posted.push(posting(state, giver, `Avenge the ${route.commodity} Caravans`, defeatObjective(state, foe.id), rng));
+  });
+
+  state.npcs.forEach(npc => {
+    if (!canPost() || busy(npc) || !npc.goals?.length || (npc.resources?.gold || 0) <= 0) return;
+    if (!rng.chance(QUEST_RULES.goal_chance)) return;
+    const goal = [...npc.goals].sort((a, b) => b.priority - a.priority)[0];
+    const objective = objectiveForGoal(state, npc, goal.text);
+    if (objective) posted.push(posting(state, npc, goal.text, objective, rng));
+  });
+
+  return posted;
+};
+
+/**
+ * One day on the quest board. Open quests whose objectives are all met are completed and
+ * the giver pays the reward (as much as their purse allows) to whoever took the quest on,
+ * the player included; quests past their deadline, or whose place or target is gone, fail.
+ * Both outcomes go to the event log, and only the last `history` resolved quests are kept.
+ * Then new quests are posted.
+ */
+export const runQuests = (state: WorldState): Partial<WorldState> => {
+  const rng = createRng(state.rng);
+  const events: EventLogEntry[] = [];
+  let npcs = state.npcs;
+  let player = state.player;
+
+  const quests = (state.quests || []).map((quest): Quest => {
+    if (quest.status !== 'open') return quest;
+    const giver = npcs.find(n => n.id === quest.giver_npc_id);
+    const done = quest.objectives.length > 0 && quest.objectives.every(o => objectiveMet(state, o));
+    const failed = !done && (state.time.epoch >= quest.expires_epoch || quest.objectives.some(o => objectiveVoid(state, o)));
+    if (!done && !failed) return quest;
+
+    const taker = quest.taken_by === PLAYER_ID ? null : npcs.find(n => n.id === quest.taken_by);
+    const paid = done && quest.taken_by ? round2(Math.min(quest.reward.gold, Math.max(0, giver?.resources?.gold || 0))) : 0;
+    const champion = quest.taken_by === PLAYER_ID ? 'The player' : taker?.name;
+    if (paid > 0) {
+      npcs = npcs.map(n => {
+        if (n.id === quest.giver_npc_id) return { ...n, resources: { ...n.resources, gold: round2(n.resources.gold - paid) } };
+        if (n.id === taker?.id) return { ...n, resources: { ...n.resources, gold: round2(n.resources.gold + paid) } };
+        return n;
+      });
+      if (quest.taken_by === PLAYER_ID) player = { ...player, resources: { ...player.resources, gold: round2(player.resources.gold + paid) } };
+    }
+    if (done && taker) {
+      npcs = npcs.map(n => n.id === taker.id ? addMemoryToNPC(n, `I completed "${quest.title}" for ${giver?.name || 'a patron'}.`, state.time.epoch, ['quest']) : n);
+    }
+    events.push({
+      id: `evt_quest_${state.time.epoch}_${quest.id}`,
+      epoch: state.time.epoch,
+      type: 'quest',
+      title: `${done ? 'Quest Completed' : 'Quest Failed'}: ${quest.title}`,
+      summary: done
+        ? `${champion ? `${champion} fulfilled` : 'Events fulfilled'} ${giver?.name || 'a patron'}'s request to ${quest.objectives.map(o => describeObjective(state, o).replace(/ \(.*\)$/, '')).join(' and ')}${paid > 0 ? ` and earned ${paid} gold` : ''}.`
+        : `${giver?.name || 'A patron'}'s request to ${quest.objectives.map(o => describeObjective(state, o).replace(/ \(.*\)$/, '')).join(' and ')} went unanswered.`,
+      impact: { quest_id: quest.id, giver_npc_id: quest.giver_npc_id, taken_by: quest.taken_by, reward_paid: paid },
+      decision_trace_id: null
+    });
+    return { ...quest, status: done ? 'completed' : 'failed', resolved_epoch: state.time.epoch };
+  });
+
+  const resolved = quests.filter(q => q.status !== 'open').slice(-QUEST_RULES.history);
+  const kept = quests.filter(q => q.status === 'open' || resolved.includes(q));
+  const posted = postQuests({ ...state, npcs, quests: kept }, rng);
+  return {
+    npcs,
+    player,
+    quests: [...kept, ...posted],
+    event_log: [...(state.event_log || []), ...events],
+    rng: rng.snapshot()
+  };
+};
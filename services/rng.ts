@@ -0,0 +1,58 @@
+import { RngState } from '../types';
+
+/**
+ * Seeded PRNG (mulberry32). The generator is mutable while in use; persist it by
+ * writing `snapshot()` back into `WorldState.rng` so the stream resumes after a reload.
+ */
+export type Rng = {
+  next: () => number;
+  int: (min: number, max: number) => number;
+  range: (min: number, max: number) => number;
+  chance: (probability: number) => boolean;
+  pick: <T>(items: T[]) => T;
+  shuffle: <T>(items: T[]) => T[];
+  id: (prefix: string) => string;
+  snapshot: () => RngState;
+};
+
+// FNV-1a, 32-bit. Also used wherever a stable hash of a string is needed.
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const createRngState = (seed: string): RngState => ({ seed, state: hashString(seed) });
+
+export const createRng = (rngState: RngState): Rng => {
+  let state = rngState.state >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    range: (min, max) => min + next() * (max - min),
+    chance: (probability) => next() < probability,
+    pick: (items) => items[Math.floor(next() * items.length)],
+    shuffle: (items) => {
+      const result = [...items];
+      for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(next() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+      }
+      return result;
+    },
+    id: (prefix) => `${prefix}_${Math.floor(next() * 0x7fffffff).toString(36)}`,
+    snapshot: () => ({ seed: rngState.seed, state })
+  };
+};
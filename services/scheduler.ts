@@ -0,0 +1,57 @@
+import { WorldState, NPC, AgentRole } from '../types';
+import { AGENT_ROLE_CATALOG, SCHEDULER_RULES } from '../constants';
+import { lastLedgerEntry } from './treasury';
+import { atWar } from './diplomacy';
+
+const ROLES = Object.keys(AGENT_ROLE_CATALOG) as AgentRole[];
+
+export const agentRole = (npc: Pick<NPC, 'role'>): AgentRole =>
+  ROLES.find(role => AGENT_ROLE_CATALOG[role].match.test(npc.role || '')) || 'commoner';
+
+/** Names of the manager tools an NPC may call in its role. */
+export const roleTools = (npc: Pick<NPC, 'role'>): string[] => AGENT_ROLE_CATALOG[agentRole(npc)].tools;
+
+/** Whether the state of the agent's faction calls for its kind of work right now. */
+const inCrisis = (state: WorldState, npc: NPC, role: AgentRole) => {
+  const faction = state.factions.find(f => f.id === npc.faction_id);
+  if (!faction) return false;
+  if (role === 'ruler' || role === 'general' || role === 'spy') return state.factions.some(f => atWar(state, faction.id, f.id));
+  if (role === 'priest') return state.map.locations.some(l => l.faction_id === faction.id && l.unrest > 50);
+  if (role === 'merchant') return !!lastLedgerEntry(faction)?.deficits.length;
+  return false;
+};
+
+/** How badly an agent wants a turn today; the longer it has waited, the more it counts. */
+export const agentPriority = (state: WorldState, npc: NPC) => {
+  const role = agentRole(npc);
+  const since = state.time.epoch - SCHEDULER_RULES.event_days;
+  const concerns = [npc.id, npc.faction_id, npc.location_id];
+  const events = (state.event_log || []).filter(e => e.epoch >= since && e.type !== 'summary'
+    && Object.values(e.impact || {}).some(value => concerns.includes(value as string))).length;
+  const goal = Math.max(0, ...npc.goals.map(g => Number(g.priority) || 0));
+  const waited = state.time.epoch - (npc.last_turn_epoch ?? -1);
+  return AGENT_ROLE_CATALOG[role].weight
+    + goal * SCHEDULER_RULES.goal_weight
+    + events * SCHEDULER_RULES.event_weight
+    + (inCrisis(state, npc, role) ? SCHEDULER_RULES.crisis_weight : 0)
+    + waited * SCHEDULER_RULES.wait_weight;
+};
+
+/**
+ * Picks today's agents: the `budget` highest priorities among NPCs not on the road, ties
+ * going to whoever has waited longest. Agents that act start waiting again from zero, so
+ * the quiet ones climb the queue until their turn comes.
+ */
+export const scheduleAgents = (state: WorldState, budget: number): NPC[] =>
+  (state.npcs || [])
+    .filter(n => !n.travel && state.factions.some(f => f.id === n.faction_id))
+    .map(npc => ({ npc, priority: agentPriority(state, npc) }))
+    .sort((a, b) => b.priority - a.priority
+      || (a.npc.last_turn_epoch ?? -1) - (b.npc.last_turn_epoch ?? -1)
+      || a.npc.id.localeCompare(b.npc.id))
+    .slice(0, Math.max(0, Math.floor(budget)))
+    .map(entry => entry.npc);
+
+export const markAgentTurn = (state: WorldState, npcId: string): Partial<WorldState> => ({
+  npcs: state.npcs.map(n => n.id === npcId ? { ...n, last_turn_epoch: state.time.epoch } : n)
+});
@@ -0,0 +1,342 @@
+import { WorldBundle, WorldState, NPC, ThemeConfig, DecisionTrace, AgentStep } from '../types';
+import { INITIAL_RULES } from '../constants';
+import { runManagerAgent, runHistoryAgent, runToolEvolutionAgent, runWorldEventAgent, runToolExecutionAgent } from './aiService';
+import { narrateBattle } from './godEngine';
+import { generateWorldDiff, applyInfluence, startTravel, advanceTravel } from './toolService';
+import { assessRoutes, flowTrade, openTradeRoute } from './trade';
+import { simulateMarkets } from './markets';
+import { runTreasury } from './treasury';
+import { applyLaws, enactLaw, repealLaw } from './laws';
+import { simulatePopulation } from './demographics';
+import { advanceBuildings, buildStructure, repairStructure, upgradeStructure } from './buildings';
+import { acceptQuest, creditCasualties, deliverQuestGoods, runQuests } from './quests';
+import { inciteUnrest, preach } from './intrigue';
+import { markAgentTurn, scheduleAgents } from './scheduler';
+import { permissionDenial } from './permissions';
+import { isQueryTool, runQuery } from './queries';
+import { advanceArmies, disbandArmy, moveArmy, raiseArmy } from './armies';
+import { declareWar, formAlliance, payTribute, proposeTreaty, runDiplomacy } from './diplomacy';
+import { describeBattle } from './combat';
+import { projectTerritory } from './territory';
+import { addTool, canUseTool, getToolById, markToolUsed } from './toolDb';
+import type { ToolDB } from './toolDb';
+import { updateMemoryStrengths } from './memoryService';
+import { drainValidationReports, validationReportEvents } from './validation';
+import { repairWorld } from './worldIntegrity';
+
+/**
+ * AI-backed services the engine depends on. Swap any of these out to run a tick
+ * offline (Node scripts, tests) or against a different backend.
+ */
+export type SimulationDeps = {
+  runManagerAgent: typeof runManagerAgent;
+  runToolExecutionAgent: typeof runToolExecutionAgent;
+  runHistoryAgent: typeof runHistoryAgent;
+  runWorldEventAgent: typeof runWorldEventAgent;
+  runToolEvolutionAgent: typeof runToolEvolutionAgent;
+  narrateBattle: typeof narrateBattle;
+  wait: (ms: number) => Promise<void>;
+  managerDelayMs: number;
+};
+
+export type StepResult = {
+  bundle: WorldBundle;
+  toolDb: ToolDB;
+  logs: string[];
+};
+
+type ActionResult = { success: boolean; message: string; updates: Partial<WorldState> | null };
+
+export const defaultSimulationDeps: SimulationDeps = {
+  runManagerAgent,
+  runToolExecutionAgent,
+  runHistoryAgent,
+  runWorldEventAgent,
+  runToolEvolutionAgent,
+  narrateBattle,
+  wait: (ms: number) => new Promise(resolve => setTimeout(resolve, ms)),
+  managerDelayMs: 800
+};
+
+const PRIMITIVE_CALLS = [
+  'build_structure', 'upgrade_structure', 'repair_structure', 'raise_army', 'move_army', 'disband_army',
+  'declare_war', 'propose_treaty', 'form_alliance', 'pay_tribute', 'enact_law', 'repeal_law',
+  'accept_quest', 'deliver_goods', 'incite_unrest', 'preach', 'travel', 'open_trade_route'
+];
+
+const runPrimitiveAction = async (
+  state: WorldState,
+  manager: NPC,
+  name: string,
+  args: any
+): Promise<ActionResult> => {
+  if (name === 'build_structure') {
+    return buildStructure(state, manager.faction_id, args, manager.id);
+  }
+  if (name === 'upgrade_structure') {
+    return upgradeStructure(state, manager.faction_id, args);
+  }
+  if (name === 'repair_structure') {
+    return repairStructure(state, manager.faction_id, args);
+  }
+  if (name === 'raise_army') {
+    return raiseArmy(state, manager.faction_id, args);
+  }
+  if (name === 'move_army') {
+    return moveArmy(state, manager.faction_id, args);
+  }
+  if (name === 'disband_army') {
+    return disbandArmy(state, manager.faction_id, args);
+  }
+  if (name === 'declare_war') {
+    return declareWar(state, manager.faction_id, args);
+  }
+  if (name === 'propose_treaty') {
+    return proposeTreaty(state, manager.faction_id, args);
+  }
+  if (name === 'form_alliance') {
+    return formAlliance(state, manager.faction_id, args);
+  }
+  if (name === 'pay_tribute') {
+    return payTribute(state, manager.faction_id, args);
+  }
+  if (name === 'enact_law') {
+    return enactLaw(state, manager.faction_id, args);
+  }
+  if (name === 'repeal_law') {
+    return repealLaw(state, manager.faction_id, args);
+  }
+  if (name === 'accept_quest') {
+    return acceptQuest(state, manager.id, args);
+  }
+  if (name === 'deliver_goods') {
+    return deliverQuestGoods(state, manager.id, args);
+  }
+  if (name === 'incite_unrest') {
+    return inciteUnrest(state, manager.id, args);
+  }
+  if (name === 'preach') {
+    return preach(state, manager.id, args);
+  }
+  if (name === 'apply_influence') {
+    return applyInfluence(state, args);
+  }
+  if (name === 'travel') {
+    return startTravel(state, manager.id, args.location_id);
+  }
+  if (name === 'open_trade_route') {
+    return openTradeRoute(state, manager.faction_id, args);
+  }
+  return { success: false, message: `Unknown action ${name}`, updates: null };
+};
+
+const round2 = (value: number) => parseFloat(value.toFixed(2));
+
+/** What a turn did to the agent's treasury and reserve, which the world diff does not itemise. */
+const treasuryChange = (before: WorldState, after: WorldState, factionId: string): string[] => {
+  const prev = before.factions.find(f => f.id === factionId);
+  const curr = after.factions.find(f => f.id === factionId);
+  if (!prev || !curr) return [];
+  const shifts = [
+    ['gold', curr.resources.gold - prev.resources.gold],
+    ['grain', curr.resources.grain - prev.resources.grain],
+    ['iron', curr.resources.iron - prev.resources.iron],
+    ['reserve troops', curr.military.troops - prev.military.troops]
+  ] as const;
+  const moved = shifts.filter(([, delta]) => round2(delta) !== 0).map(([label, delta]) => `${label} ${delta > 0 ? '+' : ''}${round2(delta)}`);
+  return moved.length ? [`${curr.name} ${moved.join(', ')}`] : [];
+};
+
+type CallOutcome = { state: WorldState; db: ToolDB; result: ActionResult; rejected: DecisionTrace['rejected_calls'] };
+
+/**
+ * Carries out one agent call: the permission check, then a primitive action or a shared tool
+ * whose expansion is checked call by call. The result is what the agent is shown next step.
+ */
+const performCall = async (
+  state: WorldState,
+  db: ToolDB,
+  agent: NPC,
+  call: { name: string; args: any },
+  deps: SimulationDeps,
+  theme?: ThemeConfig
+): Promise<CallOutcome> => {
+  const rejected: DecisionTrace['rejected_calls'] = [];
+  const denial = permissionDenial(state, agent, call);
+  if (denial) {
+    rejected.push({ tool: call.name, inputs: call.args, reason: denial });
+    return { state, db, rejected, result: { success: false, message: `Refused: ${denial}`, updates: null } };
+  }
+  if (PRIMITIVE_CALLS.includes(call.name)) {
+    const result = await runPrimitiveAction(state, agent, call.name, call.args);
+    return { state: result.success && result.updates ? { ...state, ...result.updates } : state, db, rejected, result };
+  }
+  if (call.name !== 'execute_tool') return { state, db, rejected, result: { success: false, message: `Unknown action ${call.name}`, updates: null } };
+
+  const tool = getToolById(db, call.args.tool_id);
+  if (!tool || !canUseTool(db, tool.id, state)) return { state, db, rejected, result: { success: false, message: 'Tool unavailable', updates: null } };
+  const execution = await deps.runToolExecutionAgent(state, agent, tool, call.args.arguments || {}, theme);
+  if (!execution) return { state, db, rejected, result: { success: false, message: 'Tool execution failed', updates: null } };
+  let working = state;
+  for (const action of execution.calls) {
+    const actionDenial = permissionDenial(working, agent, { name: action.tool, args: action.args }, false);
+    if (actionDenial) {
+      rejected.push({ tool: action.tool, inputs: action.args, reason: actionDenial });
+      continue;
+    }
+    const actionResult = await runPrimitiveAction(working, agent, action.tool, action.args);
+    if (actionResult.success && actionResult.updates) working = { ...working, ...actionResult.updates };
+  }
+  return { state: working, db: markToolUsed(db, tool.id, working.time.epoch), rejected, result: { success: true, message: execution.summary, updates: null } };
+};
+
+/**
+ * Advances the world by one day. The input bundle and tool archive are never mutated;
+ * callers receive the next bundle, the updated archive and the raw action logs.
+ */
+export const step = async (
+  bundle: WorldBundle,
+  toolDb: ToolDB,
+  overrides: Partial<SimulationDeps> = {}
+): Promise<StepResult> => {
+  const deps: SimulationDeps = { ...defaultSimulationDeps, ...overrides };
+  const theme: ThemeConfig | undefined = bundle.meta.themeConfig;
+  const rules = { ...INITIAL_RULES, ...(bundle.meta.rules || {}) };
+  const prevState = bundle.world_state;
+  let nextState: WorldState = JSON.parse(JSON.stringify(bundle.world_state));
+  let db = toolDb;
+  const logs: string[] = [];
+
+  nextState.npcs = updateMemoryStrengths(nextState.npcs || [], rules.daily_decay_multiplier);
+  nextState = { ...nextState, ...simulateMarkets(nextState) };
+  nextState = { ...nextState, ...advanceTravel(nextState) };
+  nextState = { ...nextState, ...assessRoutes(nextState) };
+  nextState = { ...nextState, ...flowTrade(nextState) };
+
+  nextState = { ...nextState, ...runDiplomacy(nextState) };
+
+  const campaign = advanceArmies(nextState);
+  const campaignState = nextState;
+  nextState = { ...nextState, ...campaign.updates };
+  nextState = { ...nextState, ...creditCasualties(nextState, campaign.casualties) };
+  for (const report of campaign.battles) {
+    const account = await deps.narrateBattle(campaignState, report) || describeBattle(campaignState, report);
+    logs.push(`${account} (losses ${report.attacker_casualties}v${report.defender_casualties})`);
+  }
+  logs.push(...campaign.logs);
+
+  const managers = scheduleAgents(nextState, rules.max_agents_per_sleep);
+  for (const manager of managers) {
+    nextState = { ...nextState, ...markAgentTurn(nextState, manager.id) };
+    const before = nextState;
+    // Each step the agent sees what its earlier calls this turn came to, until it stops or runs out of steps.
+    // Observation calls are answered on the spot and only count against their own budget.
+    const steps: AgentStep[] = [];
+    const rejected: DecisionTrace['rejected_calls'] = [];
+    const facts: string[] = [];
+    let turnTrace: DecisionTrace | null = null;
+    let actions = 0;
+    let queries = 0;
+    const budget = Math.max(1, rules.max_agent_steps);
+    for (let round = 0; actions < budget && round < budget + rules.max_agent_queries; round++) {
+      const agent = nextState.npcs.find(n => n.id === manager.id) || manager;
+      await deps.wait(deps.managerDelayMs); // Rate limiting gap
+      const { toolCalls, trace } = await deps.runManagerAgent(agent, nextState, theme, db, steps, turnTrace || undefined);
+      turnTrace = turnTrace || trace;
+      if (!toolCalls.length) break;
+      if (toolCalls.some(call => !isQueryTool(call.name))) actions++;
+      for (const call of toolCalls) {
+        if (isQueryTool(call.name)) {
+          const answer = queries < rules.max_agent_queries
+            ? runQuery(nextState, agent, call)
+            : { success: false, message: 'No more observations this turn', data: null };
+          queries++;
+          if (answer.success) facts.push(`${call.name}: ${answer.message}`);
+          steps.push({ tool: call.name, inputs: call.args, outputs: answer });
+          continue;
+        }
+        const outcome = await performCall(nextState, db, agent, call, deps, theme);
+        nextState = outcome.state;
+        db = outcome.db;
+        rejected.push(...outcome.rejected);
+        if (outcome.result.success && outcome.result.message) logs.push(`${agent.name}: ${outcome.result.message}`);
+        steps.push({ tool: call.name, inputs: call.args, outputs: { success: outcome.result.success, message: outcome.result.message } });
+      }
+    }
+    if (turnTrace) {
+      // The trace was written before any call ran; back-fill what the turn actually changed.
+      const { added, updated, removed } = generateWorldDiff(before, nextState, nextState.time.epoch).diff;
+      nextState.decision_traces = [...(nextState.decision_traces || []), {
+        ...turnTrace,
+        world_facts_used: [...(turnTrace.world_facts_used || []), ...facts],
+        tool_calls: steps,
+        rejected_calls: [...(turnTrace.rejected_calls || []), ...rejected],
+        world_diff_summary: [...added, ...updated, ...removed, ...treasuryChange(before, nextState, manager.faction_id)]
+      }];
+    }
+  }
+
+  if (logs.length > 0) {
+    const summary = await deps.runHistoryAgent(logs);
+    nextState.event_log = [...(nextState.event_log || []), {
+      id: `evt_${nextState.time.epoch}_summary`, epoch: nextState.time.epoch, type: 'summary', title: `Day ${nextState.time.day} Summary`,
+      summary, impact: {}, decision_trace_id: (nextState.decision_traces?.length ? nextState.decision_traces[nextState.decision_traces.length - 1].decision_trace_id : null)
+    }];
+  }
+
+  const worldEvent = await deps.runWorldEventAgent(nextState, theme);
+  if (worldEvent) {
+    nextState.event_log = [...(nextState.event_log || []), {
+      id: `evt_world_${nextState.time.epoch}`,
+      epoch: nextState.time.epoch,
+      type: worldEvent.type,
+      title: worldEvent.title,
+      summary: worldEvent.summary,
+      impact: {},
+      decision_trace_id: null
+    }];
+  }
+
+  if (db.last_evolved_epoch !== nextState.time.epoch) {
+    const newTool = await deps.runToolEvolutionAgent(nextState, db, theme);
+    if (newTool) {
+      db = { ...addTool(db, newTool), last_evolved_epoch: nextState.time.epoch };
+      nextState.event_log = [...(nextState.event_log || []), {
+        id: `evt_tool_${nextState.time.epoch}`,
+        epoch: nextState.time.epoch,
+        type: 'tool_evolution',
+        title: `Tool Emerged: ${newTool.name}`,
+        summary: newTool.lore || newTool.description,
+        impact: { tool_id: newTool.id },
+        decision_trace_id: null
+      }];
+    }
+  }
+
+  nextState = { ...nextState, ...applyLaws(nextState) };
+  nextState = { ...nextState, ...advanceBuildings(nextState) };
+  nextState = { ...nextState, ...simulatePopulation(nextState) };
+  nextState = { ...nextState, ...runQuests(nextState) };
+  nextState = { ...nextState, ...runTreasury(nextState) };
+  nextState = { ...nextState, ...projectTerritory(nextState) };
+
+  const reports = drainValidationReports();
+  if (reports.length) {
+    nextState.event_log = [...(nextState.event_log || []), ...validationReportEvents(reports, nextState.time.epoch)];
+  }
+  nextState = repairWorld(nextState).state;
+
+  nextState.time = { ...nextState.time, day: nextState.time.day + 1, epoch: nextState.time.epoch + 1 };
+
+  return {
+    bundle: {
+      ...bundle,
+      world_state: nextState,
+      world_diffs: [...bundle.world_diffs, generateWorldDiff(prevState, nextState, nextState.time.epoch)]
+    },
+    toolDb: db,
+    logs
+  };
+};
+
+export const SimulationEngine = { step };
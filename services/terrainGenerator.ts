@@ -0,0 +1,188 @@
+import { Tile, TerrainType, Location } from '../types';
+import type { Rng } from './rng';
+
+export type MapSize = { width: number; height: number };
+
+// Share of the map given to each band, so every seed gets a comparable mix of biomes.
+const SEA_FRACTION = 0.3;
+const MOUNTAIN_FRACTION = 0.1;
+const DESERT_FRACTION = 0.2;
+const FOREST_FRACTION = 0.35;
+
+const LOCATION_SPACING = 3;
+const CLAIM_RADIUS = 2;
+
+const PLACEMENT_SCORES: Record<TerrainType, number> = {
+  plains: 3,
+  forest: 2,
+  desert: 1,
+  mountain: 0.5,
+  water: -Infinity
+};
+
+const NEIGHBOURS = [[0, -1], [1, 0], [0, 1], [-1, 0]];
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+/** Bilinearly interpolated value noise on a lattice of seeded random values. */
+const createValueNoise = (rng: Rng, size: MapSize, cellSize: number) => {
+  const cols = Math.ceil(size.width / cellSize) + 2;
+  const rows = Math.ceil(size.height / cellSize) + 2;
+  const lattice = Array.from({ length: cols * rows }, () => rng.next());
+  return (x: number, y: number) => {
+    const gx = x / cellSize;
+    const gy = y / cellSize;
+    const x0 = Math.floor(gx);
+    const y0 = Math.floor(gy);
+    const tx = smoothstep(gx - x0);
+    const ty = smoothstep(gy - y0);
+    const at = (cx: number, cy: number) => lattice[cy * cols + cx];
+    const top = at(x0, y0) + (at(x0 + 1, y0) - at(x0, y0)) * tx;
+    const bottom = at(x0, y0 + 1) + (at(x0 + 1, y0 + 1) - at(x0, y0 + 1)) * tx;
+    return top + (bottom - top) * ty;
+  };
+};
+
+/** Sums octaves of value noise, halving cell size and amplitude each time. Output is in [0, 1]. */
+const createFractalNoise = (rng: Rng, size: MapSize, baseCell: number, octaves = 4) => {
+  const layers = Array.from({ length: octaves }, (_, i) => createValueNoise(rng, size, Math.max(1, baseCell / 2 ** i)));
+  const total = layers.reduce((sum, _, i) => sum + 0.5 ** i, 0);
+  return (x: number, y: number) => layers.reduce((sum, layer, i) => sum + layer(x, y) * 0.5 ** i, 0) / total;
+};
+
+const quantile = (values: number[], fraction: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+};
+
+/**
+ * Builds a continent from seeded elevation and moisture layers. Elevation fades towards the
+ * edges so land gathers in the middle with coastlines around it; bands are cut by quantile
+ * (sea, mountain) and moisture splits the lowlands into desert, plains and forest. Rivers
+ * then run downhill from the highlands to the sea.
+ */
+export const generateTerrain = (rng: Rng, size: MapSize): Tile[] => {
+  const { width, height } = size;
+  const baseCell = Math.max(4, Math.round(Math.min(width, height) / 3));
+  const elevationNoise = createFractalNoise(rng, size, baseCell);
+  const moistureNoise = createFractalNoise(rng, size, baseCell);
+
+  const elevation: number[] = [];
+  const moisture: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const nx = (x / Math.max(1, width - 1)) * 2 - 1;
+      const ny = (y / Math.max(1, height - 1)) * 2 - 1;
+      const falloff = Math.min(1, Math.sqrt(nx * nx + ny * ny) / Math.SQRT2);
+      elevation.push(elevationNoise(x, y) - 0.6 * falloff * falloff);
+      moisture.push(moistureNoise(x, y));
+    }
+  }
+
+  const seaLevel = quantile(elevation, SEA_FRACTION);
+  const mountainLevel = quantile(elevation, 1 - MOUNTAIN_FRACTION);
+  const landMoisture = moisture.filter((_, i) => elevation[i] > seaLevel);
+  const desertLevel = quantile(landMoisture, DESERT_FRACTION);
+  const forestLevel = quantile(landMoisture, 1 - FOREST_FRACTION);
+
+  const tiles: Tile[] = elevation.map((e, i) => {
+    let terrain: TerrainType = 'plains';
+    if (e <= seaLevel) terrain = 'water';
+    else if (e >= mountainLevel) terrain = 'mountain';
+    else if (moisture[i] <= desertLevel) terrain = 'desert';
+    else if (moisture[i] >= forestLevel) terrain = 'forest';
+    return { x: i % width, y: Math.floor(i / width), terrain, owner_faction_id: null, location_id: null };
+  });
+
+  const highlands = rng.shuffle(tiles.map((_, i) => i).filter(i => tiles[i].terrain !== 'water' && elevation[i] >= quantile(elevation, 0.8)));
+  const riverCount = Math.max(1, Math.round((width * height) / 200));
+  let carved = 0;
+  for (const source of highlands) {
+    if (carved >= riverCount) break;
+    if (tiles[source].river) continue;
+    const course: number[] = [];
+    let current = source;
+    while (tiles[current].terrain !== 'water' && !course.includes(current)) {
+      course.push(current);
+      const cx = current % width;
+      const cy = Math.floor(current / width);
+      let lowest = current;
+      for (const [dx, dy] of NEIGHBOURS) {
+        const nx = cx + dx;
+        const ny = cy + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const next = ny * width + nx;
+        if (elevation[next] < elevation[lowest]) lowest = next;
+      }
+      if (lowest === current) break;
+      current = lowest;
+    }
+    // Only keep rivers that actually reach the sea.
+    if (tiles[current].terrain !== 'water' || course.length < 3) continue;
+    course.forEach(i => {
+      if (tiles[i].terrain !== 'mountain') tiles[i] = { ...tiles[i], river: true };
+    });
+    carved++;
+  }
+
+  return tiles;
+};
+
+/**
+ * Moves each location to the best land tile near where it was asked for: open terrain,
+ * fresh water and coast score well, distance from the requested spot costs, and
+ * settlements keep `LOCATION_SPACING` tiles apart where the land allows it.
+ */
+export const placeLocations = <T extends Pick<Location, 'id' | 'x' | 'y'>>(tiles: Tile[], locations: T[], size: MapSize): T[] => {
+  const tileAt = (x: number, y: number) => (x < 0 || y < 0 || x >= size.width || y >= size.height) ? undefined : tiles[y * size.width + x];
+  const suitability = (tile: Tile) => {
+    let score = PLACEMENT_SCORES[tile.terrain];
+    const around = NEIGHBOURS.map(([dx, dy]) => tileAt(tile.x + dx, tile.y + dy));
+    if (tile.river || around.some(t => t?.river)) score += 1.5;
+    if (around.some(t => t?.terrain === 'water')) score += 1;
+    return score;
+  };
+
+  const placed: T[] = [];
+  for (const loc of locations) {
+    const wantX = Math.min(Math.max(Math.round(Number(loc.x) || 0), 0), size.width - 1);
+    const wantY = Math.min(Math.max(Math.round(Number(loc.y) || 0), 0), size.height - 1);
+    const pick = (spacing: number) => {
+      let best: Tile | null = null;
+      let bestScore = -Infinity;
+      for (const tile of tiles) {
+        if (tile.terrain === 'water') continue;
+        if (placed.some(p => Math.max(Math.abs(p.x - tile.x), Math.abs(p.y - tile.y)) < spacing)) continue;
+        const score = suitability(tile) - 0.4 * Math.hypot(tile.x - wantX, tile.y - wantY);
+        if (score > bestScore) {
+          best = tile;
+          bestScore = score;
+        }
+      }
+      return best;
+    };
+    const tile = pick(LOCATION_SPACING) || pick(1);
+    placed.push(tile ? { ...loc, x: tile.x, y: tile.y } : loc);
+  }
+  return placed;
+};
+
+/** Links location tiles and hands every land tile within `CLAIM_RADIUS` to the nearest settlement's faction. */
+export const claimTerritory = (tiles: Tile[], locations: Pick<Location, 'id' | 'x' | 'y' | 'faction_id'>[]): Tile[] => {
+  return tiles.map(tile => {
+    const here = locations.find(l => l.x === tile.x && l.y === tile.y);
+    if (here) return { ...tile, location_id: here.id, owner_faction_id: here.faction_id };
+    if (tile.terrain === 'water') return tile;
+    let owner: string | null = null;
+    let nearest = Infinity;
+    for (const loc of locations) {
+      if (!loc.faction_id) continue;
+      const dist = Math.abs(loc.x - tile.x) + Math.abs(loc.y - tile.y);
+      if (dist <= CLAIM_RADIUS && dist < nearest) {
+        owner = loc.faction_id;
+        nearest = dist;
+      }
+    }
+    return owner ? { ...tile, owner_faction_id: owner } : tile;
+  });
+};
@@ -0,0 +1,107 @@
+import { WorldState, Location, Tile } from '../types';
+import { TERRITORY_RULES } from '../constants';
+import { moveCost } from './pathfinding';
+import { buildingLevels } from './buildings';
+
+type FactionInfluence = Record<string, number>;
+
+/** How hard a settlement pushes outward, and how far (in movement points) that push carries. */
+const projection = (location: Location) => {
+  const towers = buildingLevels(location, 'watchtower');
+  const walls = buildingLevels(location, 'wall');
+  const power = (1
+    + Math.sqrt(Math.max(0, location.population)) * TERRITORY_RULES.population_weight
+    + location.defense * TERRITORY_RULES.defense_weight
+    + walls * TERRITORY_RULES.wall_bonus
+    + towers * TERRITORY_RULES.watchtower_bonus)
+    * (1 - Math.min(100, location.unrest) / 200);
+  const range = TERRITORY_RULES.base_range
+    + location.population / TERRITORY_RULES.population_per_range
+    + towers * TERRITORY_RULES.watchtower_range;
+  return { power, range };
+};
+
+/** Influence each faction exerts on every tile, indexed like `map.tiles` (row-major). */
+export const computeInfluence = (state: WorldState): FactionInfluence[] => {
+  const { width, height } = state.map;
+  const costs = new Array<number>(width * height).fill(Infinity);
+  state.map.tiles.forEach(tile => { costs[tile.y * width + tile.x] = moveCost(tile.terrain); });
+  const influence: FactionInfluence[] = Array.from({ length: width * height }, () => ({}));
+
+  state.map.locations.forEach(location => {
+    if (!location.faction_id) return;
+    const { power, range } = projection(location);
+    const start = location.y * width + location.x;
+    if (start < 0 || start >= width * height) return;
+
+    // Bounded Dijkstra: influence fades linearly with movement cost, so mountains and
+    // water make natural borders.
+    const spent = new Map<number, number>([[start, 0]]);
+    const frontier = [start];
+    while (frontier.length) {
+      frontier.sort((a, b) => spent.get(a)! - spent.get(b)! || a - b);
+      const current = frontier.shift()!;
+      const base = spent.get(current)!;
+      const x = current % width;
+      const y = Math.floor(current / width);
+      for (const [dx, dy] of [[0, -1], [1, 0], [0, 1], [-1, 0]]) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const next = ny * width + nx;
+        const total = base + costs[next];
+        if (total > range || total >= (spent.get(next) ?? Infinity)) continue;
+        spent.set(next, total);
+        frontier.push(next);
+      }
+    }
+
+    spent.forEach((cost, index) => {
+      const cell = influence[index];
+      cell[location.faction_id!] = (cell[location.faction_id!] || 0) + power * (1 - cost / (range + 1));
+    });
+  });
+
+  return influence;
+};
+
+/**
+ * Recomputes tile ownership from settlement influence. The strongest faction takes a tile;
+ * when the runner-up is within `contest_margin` the tile is marked contested and stays
+ * with its current holder until one side pulls ahead. Settlement tiles always follow the
+ * settlement, so a conquest drags its hinterland along on the same tick.
+ */
+export const projectTerritory = (state: WorldState): Partial<WorldState> => {
+  if (!state.map.tiles.length) return {};
+  const influence = computeInfluence(state);
+  const width = state.map.width;
+  const locationsById = new Map(state.map.locations.map(l => [l.id, l]));
+
+  const tiles = state.map.tiles.map((tile): Tile => {
+    const settlement = tile.location_id ? locationsById.get(tile.location_id) : undefined;
+    if (settlement) {
+      return tile.owner_faction_id === settlement.faction_id && !tile.contested ? tile : { ...tile, owner_faction_id: settlement.faction_id, contested: false };
+    }
+
+    const ranked = Object.entries(influence[tile.y * width + tile.x] || {})
+      .filter(([, value]) => value >= TERRITORY_RULES.min_influence)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+    const [top, runnerUp] = ranked;
+    let owner: string | null = top ? top[0] : null;
+    const contested = !!(top && runnerUp && runnerUp[1] >= top[1] * (1 - TERRITORY_RULES.contest_margin));
+    if (contested && ranked.some(([factionId]) => factionId === tile.owner_faction_id)) owner = tile.owner_faction_id;
+
+    if (owner === tile.owner_faction_id && contested === !!tile.contested) return tile;
+    return { ...tile, owner_faction_id: owner, contested };
+  });
+
+  return { map: { ...state.map, tiles } };
+};
+
+export const territoryCounts = (state: WorldState): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  state.map.tiles.forEach(tile => {
+    if (tile.owner_faction_id) counts[tile.owner_faction_id] = (counts[tile.owner_faction_id] || 0) + 1;
+  });
+  return counts;
+};
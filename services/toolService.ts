@@ -1,96 +1,8 @@
-import { WorldState, Tile, Building, Location, TradeRoute, Faction, NPC, Commodity, WorldDiff } from '../types';
-
-/**
- * Deterministic helper to find path between tiles using simple Manhattan distance for now (MVP).
- */
-const getDistance = (x1: number, y1: number, x2: number, y2: number) => {
-  return Math.abs(x1 - x2) + Math.abs(y1 - y2);
-};
-
-export const simulateEconomy = (state: WorldState): Partial<WorldState> => {
-  const newCommodities = state.economy.commodities.map(c => {
-    // Deterministic volatility
-    const fluctuation = (Math.random() * c.volatility * 2) - c.volatility;
-    
-    // Supply/Demand impact
-    const scarcity = c.demand / Math.max(1, c.supply);
-    let priceChange = 0;
-    
-    if (scarcity > 1.2) priceChange += 1; // High demand
-    if (scarcity < 0.8) priceChange -= 1; // Low demand
-    
-    // Apply trade route impacts
-    const activeRoutes = state.map.routes.filter(r => r.commodity === c.id && r.status === 'active');
-    // More routes = more stable supply = price towards base
-    const routeFactor = activeRoutes.length * 0.5;
-    
-    let nextPrice = c.current_price + priceChange + fluctuation - (c.current_price > c.base_price ? routeFactor : -routeFactor);
-    nextPrice = Math.max(1, parseFloat(nextPrice.toFixed(2)));
-
-    return { ...c, current_price: nextPrice };
-  });
-
-  return {
-    economy: { ...state.economy, commodities: newCommodities }
-  };
-};
-
-export const buildStructure = (
-  state: WorldState, 
-  locationId: string, 
-  buildingType: string, 
-  ownerId: string, 
-  cost: { gold: number, grain: number, iron: number }
-): { success: boolean, message: string, updates: Partial<WorldState> | null } => {
-  const locationIndex = state.map.locations.findIndex(l => l.id === locationId);
-  if (locationIndex === -1) return { success: false, message: "Location not found", updates: null };
-  
-  const location = state.map.locations[locationIndex];
-  const factionIndex = state.factions.findIndex(f => f.id === location.faction_id);
-  const faction = state.factions[factionIndex];
-  
-  if (!faction) return { success: false, message: "Faction not found", updates: null };
-
-  // Check resources
-  if (faction.resources.gold < cost.gold || faction.resources.grain < cost.grain || faction.resources.iron < cost.iron) {
-    return { success: false, message: `Insufficient resources. Needed: ${JSON.stringify(cost)}`, updates: null };
-  }
-
-  // Deduct cost
-  const newResources = {
-    gold: faction.resources.gold - cost.gold,
-    grain: faction.resources.grain - cost.grain,
-    iron: faction.resources.iron - cost.iron
-  };
-
-  // Add building
-  const newBuilding: Building = {
-    id: `bld_${Date.now()}_${Math.floor(Math.random()*1000)}`,
-    type: buildingType as any,
-    level: 1,
-    owner_npc_id: ownerId,
-    status: 'active'
-  };
-
-  const newLocations = [...state.map.locations];
-  newLocations[locationIndex] = {
-    ...location,
-    buildings: [...(location.buildings || []), newBuilding],
-    prosperity: location.prosperity + 5
-  };
-
-  const newFactions = [...state.factions];
-  newFactions[factionIndex] = { ...faction, resources: newResources };
-
-  return {
-    success: true,
-    message: `Built ${buildingType} in ${location.name}`,
-    updates: {
-      map: { ...state.map, locations: newLocations },
-      factions: newFactions
-    }
-  };
-};
+import { WorldState, Tile, Location, TradeRoute, Faction, NPC, Commodity, WorldDiff } from '../types';
+import { LAW_RULES } from '../constants';
+import { findLocationPath } from './pathfinding';
+import { territoryCounts } from './territory';
+import { PLAYER_ID } from './quests';
 
 export const generateWorldDiff = (prev: WorldState, curr: WorldState, epoch: number): WorldDiff => {
   const added: string[] = [];
@@ -106,11 +18,124 @@ export const generateWorldDiff = (prev: WorldState, curr: WorldState, epoch: num
       
       const prevBuildings = pLoc.buildings || [];
       const currBuildings = loc.buildings || [];
-      
-      if (prevBuildings.length !== currBuildings.length) updated.push(`New building in ${loc.name}`);
+      currBuildings.forEach(b => {
+        const pb = prevBuildings.find(p => p.id === b.id);
+        if (!pb) added.push(`Construction of a${/^[aeiou]/.test(b.type) ? 'n' : ''} ${b.type} began in ${loc.name}`);
+        else if (pb.status !== b.status || pb.level !== b.level) {
+          if (b.status === 'active') updated.push(`${loc.name}'s ${b.type} ${pb.status === 'damaged' ? 'repaired' : `completed at level ${b.level}`}`);
+          else if (b.status === 'damaged') updated.push(`${loc.name}'s ${b.type} damaged${pb.status === 'damaged' ? ` to level ${b.level}` : ''}`);
+          else updated.push(`${loc.name}'s ${b.type} being raised to level ${b.level}`);
+        }
+      });
+      prevBuildings.forEach(b => {
+        if (!currBuildings.some(c => c.id === b.id)) removed.push(`${loc.name}'s ${b.type} destroyed`);
+      });
+      if (!pLoc.unrest_days && loc.unrest_days) updated.push(`${loc.name} is on the brink of rebellion`);
+      else if (Math.abs(loc.unrest - pLoc.unrest) >= 5) updated.push(`${loc.name} unrest ${Math.round(pLoc.unrest)} → ${Math.round(loc.unrest)}`);
     }
   });
 
+  // Check Travel
+  curr.npcs.forEach(npc => {
+    const pNpc = prev.npcs.find(p => p.id === npc.id);
+    if (npc.travel && pNpc && pNpc.travel?.to_location_id !== npc.travel.to_location_id) {
+      updated.push(`${npc.name} set out for ${curr.map.locations.find(l => l.id === npc.travel?.to_location_id)?.name || npc.travel.to_location_id}`);
+    }
+  });
+
+  // Check Factions
+  curr.factions.forEach(f => {
+    if (!prev.factions.some(pf => pf.id === f.id)) added.push(`Faction ${f.name} proclaimed`);
+  });
+
+  // Check Territory
+  const prevTerritory = territoryCounts(prev);
+  const currTerritory = territoryCounts(curr);
+  curr.factions.forEach(f => {
+    const delta = (currTerritory[f.id] || 0) - (prevTerritory[f.id] || 0);
+    if (delta > 0) updated.push(`${f.name} gained ${delta} tiles of territory`);
+    if (delta < 0) updated.push(`${f.name} lost ${-delta} tiles of territory`);
+  });
+  const prevContested = prev.map.tiles.filter(t => t.contested).length;
+  const currContested = curr.map.tiles.filter(t => t.contested).length;
+  if (currContested !== prevContested) updated.push(`Contested border tiles: ${prevContested} → ${currContested}`);
+
+  // Check Treasury
+  curr.factions.forEach(f => {
+    const entry = f.ledger?.length ? f.ledger[f.ledger.length - 1] : undefined;
+    const pFaction = prev.factions.find(pf => pf.id === f.id);
+    const pEntry = pFaction?.ledger?.length ? pFaction.ledger[pFaction.ledger.length - 1] : undefined;
+    if (!entry || entry.epoch === pEntry?.epoch) return;
+    if (entry.deficits.length) updated.push(`${f.name} treasury short of ${entry.deficits.join(', ')}`);
+    if (entry.deserted) updated.push(`${entry.deserted} of ${f.name}'s soldiers deserted`);
+  });
+
+  // Check Trade
+  curr.map.routes.forEach(route => {
+    const pRoute = prev.map.routes.find(r => r.id === route.id);
+    const name = (id: string) => curr.map.locations.find(l => l.id === id)?.name || id;
+    const label = `${route.commodity} route ${name(route.from_location_id)} → ${name(route.to_location_id)}`;
+    if (!pRoute) added.push(`Trade ${label} opened`);
+    else if (pRoute.status !== route.status) updated.push(`Trade ${label} ${route.status === 'active' ? 'reopened' : 'disrupted'}`);
+  });
+  prev.map.routes.forEach(route => {
+    if (!curr.map.routes.some(r => r.id === route.id)) removed.push(`Trade route ${route.id} abandoned`);
+  });
+
+  // Check Diplomacy
+  curr.factions.forEach(f => {
+    const pFaction = prev.factions.find(pf => pf.id === f.id);
+    f.relationships.forEach(r => {
+      const before = pFaction?.relationships.find(pr => pr.target_faction_id === r.target_faction_id)?.type || 'neutral';
+      const other = curr.factions.find(o => o.id === r.target_faction_id)?.name || r.target_faction_id;
+      if (r.type === 'hostile' && before !== 'hostile' && f.id < r.target_faction_id) updated.push(`War broke out between ${f.name} and ${other}`);
+      if (before === 'hostile' && r.type !== 'hostile' && f.id < r.target_faction_id) updated.push(`${f.name} and ${other} made peace`);
+    });
+  });
+  (curr.treaties || []).forEach(treaty => {
+    const pTreaty = (prev.treaties || []).find(t => t.id === treaty.id);
+    const label = `${treaty.kind} between ${treaty.party_ids.map(id => curr.factions.find(f => f.id === id)?.name || id).join(' and ')}`;
+    if (!pTreaty) added.push(`Signed ${label}`);
+    else if (pTreaty.status !== treaty.status) updated.push(`The ${label} ${treaty.status === 'broken' ? `was broken by ${curr.factions.find(f => f.id === treaty.broken_by)?.name}` : 'expired'}`);
+  });
+
+  // Check Laws
+  curr.factions.forEach(f => {
+    const pLaws = prev.factions.find(pf => pf.id === f.id)?.laws || [];
+    (f.laws || []).forEach(law => {
+      const pLaw = pLaws.find(l => l.id === law.id);
+      if (!pLaw) added.push(`${f.name} enacted ${law.id}: "${law.text}"`);
+      else if (pLaw.level !== law.level || pLaw.enacted_epoch !== law.enacted_epoch) updated.push(`${f.name} amended ${law.id}`);
+      else if (pLaw.enforcement >= LAW_RULES.lax_enforcement && law.enforcement < LAW_RULES.lax_enforcement) updated.push(`${f.name}'s ${law.id} is going unenforced`);
+    });
+    pLaws.forEach(law => {
+      if (!(f.laws || []).some(l => l.id === law.id)) removed.push(`${f.name} repealed ${law.id}`);
+    });
+  });
+
+  // Check Quests
+  (curr.quests || []).forEach(quest => {
+    const pQuest = (prev.quests || []).find(q => q.id === quest.id);
+    if (!pQuest) added.push(`Quest posted: "${quest.title}" (${quest.reward.gold}G)`);
+    else if (pQuest.status !== quest.status) updated.push(`Quest "${quest.title}" ${quest.status}`);
+    else if (!pQuest.taken_by && quest.taken_by) updated.push(`Quest "${quest.title}" taken on by ${quest.taken_by === PLAYER_ID ? 'the player' : curr.npcs.find(n => n.id === quest.taken_by)?.name || quest.taken_by}`);
+  });
+
+  // Check Armies
+  (curr.armies || []).forEach(army => {
+    const pArmy = (prev.armies || []).find(a => a.id === army.id);
+    const place = curr.map.locations.find(l => l.id === army.location_id)?.name;
+    if (!pArmy) added.push(`${army.name} raised (${army.troops} troops)`);
+    else if (pArmy.status !== army.status && army.status === 'besieging') updated.push(`${army.name} besieging ${place}`);
+    else if (army.status === 'marching' && (pArmy.status !== 'marching' || pArmy.destination_location_id !== army.destination_location_id)) {
+      updated.push(`${army.name} marching on ${curr.map.locations.find(l => l.id === army.destination_location_id)?.name || army.destination_location_id}`);
+    }
+    else if (pArmy.status === 'besieging' && army.status !== 'besieging') updated.push(`${army.name} ended its siege`);
+  });
+  (prev.armies || []).forEach(army => {
+    if (!(curr.armies || []).some(a => a.id === army.id)) removed.push(`${army.name} disbanded or destroyed`);
+  });
+
   // Check Economy
   curr.economy.commodities.forEach(c => {
     const pComm = prev.economy.commodities.find(pc => pc.id === c.id);
@@ -200,3 +225,46 @@ export const applyInfluence = (
 
   return { success: false, message: 'Unsupported target', updates: null };
 };
+
+export const startTravel = (
+  state: WorldState,
+  npcId: string,
+  locationId: string
+): { success: boolean; message: string; updates: Partial<WorldState> | null } => {
+  const npcIndex = state.npcs.findIndex(n => n.id === npcId);
+  if (npcIndex === -1) return { success: false, message: 'NPC not found', updates: null };
+  const npc = state.npcs[npcIndex];
+  const destination = state.map.locations.find(l => l.id === locationId);
+  if (!destination) return { success: false, message: 'Location not found', updates: null };
+  if (npc.travel) return { success: false, message: `${npc.name} is already on the road`, updates: null };
+  if (npc.location_id === locationId) return { success: false, message: `${npc.name} is already in ${destination.name}`, updates: null };
+
+  const route = findLocationPath(state, npc.location_id, locationId);
+  if (!route) return { success: false, message: `No overland path to ${destination.name}`, updates: null };
+
+  const newNpcs = [...state.npcs];
+  newNpcs[npcIndex] = {
+    ...npc,
+    status: 'traveling',
+    travel: { to_location_id: locationId, path: route.path, days_remaining: Math.max(1, route.days), departed_epoch: state.time.epoch }
+  };
+  return {
+    success: true,
+    message: `${npc.name} set out for ${destination.name} (${Math.max(1, route.days)} days)`,
+    updates: { npcs: newNpcs }
+  };
+};
+
+/** Moves every traveller one day along their route; arrivals take up residence at the destination. */
+export const advanceTravel = (state: WorldState): Partial<WorldState> => {
+  if (!state.npcs.some(n => n.travel)) return {};
+  return {
+    npcs: state.npcs.map(npc => {
+      if (!npc.travel) return npc;
+      const daysRemaining = npc.travel.days_remaining - 1;
+      if (daysRemaining > 0) return { ...npc, travel: { ...npc.travel, days_remaining: daysRemaining } };
+      const arrived = state.map.locations.some(l => l.id === npc.travel!.to_location_id);
+      return { ...npc, location_id: arrived ? npc.travel.to_location_id : npc.location_id, status: 'idle', travel: null };
+    })
+  };
+};
@@ -0,0 +1,176 @@
+import { WorldState, TradeRoute, Tile } from '../types';
+import { TRADE_RULES } from '../constants';
+import { createRng } from './rng';
+import { findLocationPath } from './pathfinding';
+import { localPrice, marketThroughput, stockTarget } from './markets';
+import { atWar } from './diplomacy';
+import { lawModifiers } from './laws';
+
+type ActionResult = { success: boolean; message: string; updates: Partial<WorldState> | null };
+
+export type TradeOpportunity = {
+  commodity: string;
+  from_location_id: string;
+  to_location_id: string;
+  buy_price: number;
+  sell_price: number;
+  spread: number;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const round2 = (value: number) => parseFloat(value.toFixed(2));
+
+/** Best buy-low/sell-high pairs starting from the faction's own settlements. */
+export const tradeOpportunities = (state: WorldState, factionId: string, limit = 3): TradeOpportunity[] => {
+  const origins = state.map.locations.filter(l => l.faction_id === factionId);
+  const found: TradeOpportunity[] = [];
+  state.economy.commodities.forEach(commodity => {
+    origins.forEach(from => {
+      state.map.locations.forEach(to => {
+        if (to.id === from.id || atWar(state, factionId, to.faction_id)) return;
+        const taken = state.map.routes.some(r => r.from_location_id === from.id && r.to_location_id === to.id && r.commodity === commodity.id);
+        if (taken) return;
+        const buy = localPrice(state, from, commodity.id);
+        const sell = localPrice(state, to, commodity.id);
+        if (sell - buy < TRADE_RULES.min_spread) return;
+        found.push({ commodity: commodity.id, from_location_id: from.id, to_location_id: to.id, buy_price: buy, sell_price: sell, spread: round2(sell - buy) });
+      });
+    });
+  });
+  return found.sort((a, b) => b.spread - a.spread).slice(0, limit);
+};
+
+export const openTradeRoute = (
+  state: WorldState,
+  factionId: string,
+  inputs: { from_location_id: string; to_location_id: string; commodity: string; volume: number }
+): ActionResult => {
+  const from = state.map.locations.find(l => l.id === inputs.from_location_id);
+  const to = state.map.locations.find(l => l.id === inputs.to_location_id);
+  if (!from || !to) return { success: false, message: 'Location not found', updates: null };
+  if (from.id === to.id) return { success: false, message: 'A route needs two different ends', updates: null };
+  if (from.faction_id !== factionId) return { success: false, message: `${from.name} is not held by the route owner`, updates: null };
+  if (!state.economy.commodities.some(c => c.id === inputs.commodity)) return { success: false, message: `Unknown commodity ${inputs.commodity}`, updates: null };
+  if (atWar(state, factionId, to.faction_id)) return { success: false, message: `${to.name} refuses to trade with an enemy`, updates: null };
+  if (state.map.routes.some(r => r.from_location_id === from.id && r.to_location_id === to.id && r.commodity === inputs.commodity)) {
+    return { success: false, message: `${inputs.commodity} already flows from ${from.name} to ${to.name}`, updates: null };
+  }
+
+  const factionIndex = state.factions.findIndex(f => f.id === factionId);
+  const faction = state.factions[factionIndex];
+  if (!faction) return { success: false, message: 'Faction not found', updates: null };
+  if (faction.resources.gold < TRADE_RULES.route_setup_gold) {
+    return { success: false, message: `Insufficient resources. Needed: ${TRADE_RULES.route_setup_gold} gold`, updates: null };
+  }
+
+  const path = findLocationPath(state, from.id, to.id);
+  if (!path) return { success: false, message: `No overland path to ${to.name}`, updates: null };
+
+  const rng = createRng(state.rng);
+  const route: TradeRoute = {
+    id: rng.id(`route_${state.time.epoch}`),
+    type: 'trade',
+    from_location_id: from.id,
+    to_location_id: to.id,
+    commodity: inputs.commodity,
+    volume: clamp(Math.round(Number(inputs.volume) || 0), 1, TRADE_RULES.max_volume),
+    risk: 0,
+    status: 'active',
+    owner_faction_id: factionId,
+    path: path.path,
+    days: path.days,
+    established_epoch: state.time.epoch,
+    disrupted_until: null
+  };
+
+  const newFactions = [...state.factions];
+  newFactions[factionIndex] = { ...faction, resources: { ...faction.resources, gold: faction.resources.gold - TRADE_RULES.route_setup_gold } };
+  const withRoute = { ...state, map: { ...state.map, routes: [...state.map.routes, route] } };
+  return {
+    success: true,
+    message: `Opened a ${inputs.commodity} route from ${from.name} to ${to.name} (${path.days} days)`,
+    updates: { ...assessRoutes(withRoute), factions: newFactions, rng: rng.snapshot() }
+  };
+};
+
+/**
+ * Re-derives every route's path and risk: long, rough or foreign roads are riskier, and a
+ * road that crosses hostile land or has no path at all is disrupted. Routes knocked out by
+ * fighting stay closed until `disrupted_until`, then reopen if the road is clear.
+ */
+export const assessRoutes = (state: WorldState): Partial<WorldState> => {
+  if (!state.map.routes.length) return {};
+  const tileAt = new Map(state.map.tiles.map(t => [`${t.x},${t.y}`, t]));
+  const routes = state.map.routes.map((route): TradeRoute => {
+    const found = findLocationPath(state, route.from_location_id, route.to_location_id);
+    if (!found) return { ...route, risk: 1, status: 'disrupted' };
+    const steps = found.path.slice(1).map(p => tileAt.get(`${p.x},${p.y}`)).filter((t): t is Tile => !!t);
+    const rough = steps.filter(t => t.terrain === 'forest' || t.terrain === 'mountain').length / Math.max(1, steps.length);
+    const foreign = steps.filter(t => t.owner_faction_id && t.owner_faction_id !== route.owner_faction_id).length / Math.max(1, steps.length);
+    const hostile = steps.some(t => atWar(state, route.owner_faction_id, t.owner_faction_id));
+    const risk = round2(clamp(found.days * 0.05 + rough * 0.3 + foreign * 0.4, 0, 1));
+    const closed = route.disrupted_until !== null && route.disrupted_until > state.time.epoch;
+    return {
+      ...route,
+      path: found.path,
+      days: found.days,
+      risk,
+      status: hostile || closed ? 'disrupted' : 'active',
+      disrupted_until: closed ? route.disrupted_until : null
+    };
+  });
+  return { map: { ...state.map, routes } };
+};
+
+/** Closes every route touching a battlefield for `disruption_days`. */
+export const disruptRoutesAt = (state: WorldState, locationId: string): Partial<WorldState> => {
+  if (!state.map.routes.some(r => r.from_location_id === locationId || r.to_location_id === locationId)) return {};
+  const routes = state.map.routes.map((route): TradeRoute =>
+    route.from_location_id === locationId || route.to_location_id === locationId
+      ? { ...route, status: 'disrupted', disrupted_until: state.time.epoch + TRADE_RULES.disruption_days }
+      : route
+  );
+  return { map: { ...state.map, routes } };
+};
+
+/**
+ * Moves one day of goods along each active route. Shipments draw on the origin's surplus
+ * over its stock target, risk decides whether bandits take a share, and the owning faction banks part
+ * of the price spread on whatever arrives.
+ */
+export const flowTrade = (state: WorldState): Partial<WorldState> => {
+  if (!state.map.routes.some(r => r.status === 'active')) return {};
+  const rng = createRng(state.rng);
+  const locations = state.map.locations.map(l => ({ ...l, stockpile: { ...(l.stockpile || {}) } }));
+  const byId = new Map(locations.map(l => [l.id, l]));
+  const income: Record<string, number> = {};
+
+  state.map.routes.forEach(route => {
+    if (route.status !== 'active') return;
+    const from = byId.get(route.from_location_id);
+    const to = byId.get(route.to_location_id);
+    if (!from || !to) return;
+    // Caravans only carry what the origin can spare beyond its own target.
+    const surplus = (from.stockpile[route.commodity] || 0) - stockTarget(from, route.commodity);
+    const shipped = Math.min(Math.round(route.volume * marketThroughput(from)), Math.floor(surplus));
+    if (shipped <= 0) return;
+    const lost = rng.chance(route.risk) ? Math.ceil(shipped * TRADE_RULES.loss_rate) : 0;
+    const delivered = shipped - lost;
+    const spread = localPrice(state, to, route.commodity) - localPrice(state, from, route.commodity);
+    from.stockpile[route.commodity] = round2((from.stockpile[route.commodity] || 0) - shipped);
+    to.stockpile[route.commodity] = round2((to.stockpile[route.commodity] || 0) + delivered);
+    const profit = Math.max(0, spread) * delivered * TRADE_RULES.profit_share;
+    // Foreign markets may take a cut of the profit at the gate.
+    const tariff = to.faction_id && to.faction_id !== route.owner_faction_id
+      ? profit * Math.min(1, lawModifiers(state.factions.find(f => f.id === to.faction_id)).tariff)
+      : 0;
+    income[route.owner_faction_id] = (income[route.owner_faction_id] || 0) + profit - tariff;
+    if (tariff > 0) income[to.faction_id!] = (income[to.faction_id!] || 0) + tariff;
+  });
+
+  const factions = state.factions.map(f => income[f.id]
+    ? { ...f, resources: { ...f.resources, gold: f.resources.gold + Math.round(income[f.id]) } }
+    : f);
+  return { map: { ...state.map, locations }, factions, rng: rng.snapshot() };
+};
@@ -0,0 +1,154 @@
+import { hashString } from './rng';
+import type { ToolDB } from './toolDb';
+
+export type TranscriptMode = 'live' | 'record' | 'replay';
+
+export type TranscriptEntry = {
+  agent: string;
+  prompt_hash: string;
+  occurrence: number;
+  prompt: string;
+  response: any;
+};
+
+export type Transcript = {
+  version: 1;
+  seed?: string;
+  tool_db?: ToolDB; // the shared tool archive when recording began; it feeds the prompts
+  entries: TranscriptEntry[];
+};
+
+const TRANSCRIPT_STORAGE_KEY = 'auto_world_transcript_v1';
+const TRANSCRIPT_MODE_STORAGE_KEY = 'auto_world_transcript_mode';
+const TRANSCRIPT_CURSORS_STORAGE_KEY = 'auto_world_transcript_cursors';
+const TRANSCRIPT_MODES: TranscriptMode[] = ['live', 'record', 'replay'];
+
+const emptyTranscript = (): Transcript => ({ version: 1, entries: [] });
+
+const readStorage = (key: string) => {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(key);
+};
+
+const writeStorage = (key: string, value: string) => {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(key, value);
+  } catch (error) {
+    console.warn('Transcript could not be persisted to localStorage.', error);
+  }
+};
+
+const parseTranscript = (raw: string | null): Transcript => {
+  if (!raw) return emptyTranscript();
+  try {
+    const parsed = JSON.parse(raw);
+    const entries = Array.isArray(parsed?.entries)
+      ? parsed.entries.filter((entry: any) => entry?.agent && entry?.prompt_hash && 'response' in entry)
+      : [];
+    const toolDb = parsed?.tool_db && Array.isArray(parsed.tool_db.tools) ? { ...parsed.tool_db, usage: parsed.tool_db.usage || {} } : undefined;
+    return { version: 1, seed: typeof parsed?.seed === 'string' ? parsed.seed : undefined, tool_db: toolDb, entries };
+  } catch {
+    return emptyTranscript();
+  }
+};
+
+let transcript: Transcript = parseTranscript(readStorage(TRANSCRIPT_STORAGE_KEY));
+let modeOverride: TranscriptMode | null = null;
+const parseCursors = (raw: string | null): Record<string, number> => {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+let cursors: Record<string, number> = parseCursors(readStorage(TRANSCRIPT_CURSORS_STORAGE_KEY));
+
+const resetCursors = () => {
+  cursors = {};
+  writeStorage(TRANSCRIPT_CURSORS_STORAGE_KEY, '{}');
+};
+
+export const hashPrompt = (prompt: string) => hashString(prompt).toString(16).padStart(8, '0');
+
+export const getTranscriptMode = (): TranscriptMode => {
+  if (modeOverride) return modeOverride;
+  const stored = readStorage(TRANSCRIPT_MODE_STORAGE_KEY);
+  return TRANSCRIPT_MODES.includes(stored as TranscriptMode) ? stored as TranscriptMode : 'live';
+};
+
+export const setTranscriptMode = (mode: TranscriptMode) => {
+  if (typeof window === 'undefined') modeOverride = mode;
+  writeStorage(TRANSCRIPT_MODE_STORAGE_KEY, mode);
+  resetCursors();
+};
+
+const persistTranscript = (next: Transcript) => {
+  transcript = next;
+  writeStorage(TRANSCRIPT_STORAGE_KEY, JSON.stringify(transcript));
+};
+
+export const getTranscript = () => transcript;
+
+export const setTranscript = (next: Transcript) => {
+  persistTranscript(next);
+  resetCursors();
+};
+
+export const clearTranscript = () => setTranscript(emptyTranscript());
+
+/** Starts a fresh recording for a world generated from `seed`, with the tool archive it starts from. */
+export const beginTranscript = (seed: string, toolDb: ToolDB) => setTranscript({ ...emptyTranscript(), seed, tool_db: toolDb });
+
+/** Rewinds replay so the next call of each prompt is served from its first recording. */
+export const resetTranscriptCursors = resetCursors;
+
+/**
+ * Stores how far replay has got. Call it whenever the world is saved, so that a reload
+ * resumes numbering each prompt's occurrences from the saved world rather than from zero.
+ */
+export const saveTranscriptCursors = () => writeStorage(TRANSCRIPT_CURSORS_STORAGE_KEY, JSON.stringify(cursors));
+
+export const exportTranscript = () => JSON.stringify(transcript, null, 2);
+
+export const importTranscript = (raw: string) => {
+  const parsed = parseTranscript(raw);
+  setTranscript(parsed);
+  return parsed.entries.length;
+};
+
+/**
+ * Routes one provider call through the transcript. Calls are keyed by agent name,
+ * prompt hash and how many times that prompt has been seen, so identical prompts
+ * replay in the order they were recorded. In replay mode a miss throws instead of
+ * reaching the provider.
+ */
+export const transcribe = async <T>(agent: string, prompt: string, call: () => Promise<T>): Promise<T> => {
+  const mode = getTranscriptMode();
+  if (mode === 'live') return call();
+
+  const promptHash = hashPrompt(prompt);
+  const key = `${agent}:${promptHash}`;
+  const occurrence = cursors[key] || 0;
+  cursors[key] = occurrence + 1;
+
+  if (mode === 'replay') {
+    const entry = transcript.entries.find(e => e.agent === agent && e.prompt_hash === promptHash && e.occurrence === occurrence);
+    if (!entry) {
+      throw new Error(`Transcript miss: no recorded response for ${agent} (prompt ${promptHash}, call #${occurrence + 1}).`);
+    }
+    return JSON.parse(JSON.stringify(entry.response)) as T;
+  }
+
+  const response = await call();
+  persistTranscript({
+    ...transcript,
+    entries: [
+      ...transcript.entries.filter(e => !(e.agent === agent && e.prompt_hash === promptHash && e.occurrence === occurrence)),
+      { agent, prompt_hash: promptHash, occurrence, prompt, response: response === undefined ? null : response }
+    ]
+  });
+  return response;
+};
@@ -0,0 +1,119 @@
+import { WorldState, Faction, LedgerEntry, LedgerLine, ResourceKind } from '../types';
+import { ARMY_RULES, TREASURY_RULES } from '../constants';
+import { campaignTroops, fieldTroops } from './armies';
+import { enforcementCost, lawModifiers } from './laws';
+
+const RESOURCES: ResourceKind[] = ['gold', 'grain', 'iron'];
+
+/** Daily upkeep due for troops in quarters and troops on campaign; armies on campaign eat more. */
+const upkeepDue = (quartered: number, campaign: number): [ResourceKind, number][] => [
+  ['grain', quartered * TREASURY_RULES.troop_grain + campaign * ARMY_RULES.field_grain],
+  ['gold', (quartered + campaign) * TREASURY_RULES.troop_gold],
+  ['iron', (quartered + campaign) * TREASURY_RULES.troop_iron]
+];
+
+const round2 = (value: number) => parseFloat(value.toFixed(2));
+
+export const lastLedgerEntry = (faction: Faction): LedgerEntry | undefined =>
+  faction.ledger?.length ? faction.ledger[faction.ledger.length - 1] : undefined;
+
+/** Net change per resource over one ledger entry. */
+export const ledgerNet = (entry: LedgerEntry): Record<ResourceKind, number> => {
+  const net: Record<ResourceKind, number> = { gold: 0, grain: 0, iron: 0 };
+  entry.lines.forEach(line => { net[line.resource] = round2(net[line.resource] + line.amount); });
+  return net;
+};
+
+/**
+ * Closes each faction's books for the day. Settlements pay tax by population, scaled down
+ * by poor prosperity and unrest and up or down by the faction's laws, which cost gold to
+ * enforce; a treasury that cannot pay lets enforcement slip. Soldiers at home and in the
+ * field eat grain and draw gold and iron. Whatever the treasury cannot cover is a deficit:
+ * unfed or unpaid soldiers desert (from the reserve first, then the armies), unarmed ones
+ * lose quality, and every deficit stirs unrest in the faction's settlements. Movements since
+ * the previous close (markets, trade, building, agent orders) are booked as one line so the
+ * ledger reconciles.
+ */
+export const runTreasury = (state: WorldState): Partial<WorldState> => {
+  if (!state.factions.length) return {};
+  const unrest: Record<string, number> = {};
+  let armies = state.armies || [];
+
+  const factions = state.factions.map((faction): Faction => {
+    const resources = { ...faction.resources };
+    const lines: LedgerLine[] = [];
+    const post = (item: string, resource: ResourceKind, amount: number) => {
+      const value = round2(amount);
+      if (!value) return;
+      resources[resource] = round2(resources[resource] + value);
+      lines.push({ item, resource, amount: value });
+    };
+
+    const previous = lastLedgerEntry(faction);
+    if (previous) {
+      RESOURCES.forEach(resource => {
+        const moved = round2(faction.resources[resource] - previous.closing[resource]);
+        if (moved) lines.push({ item: 'markets & orders', resource, amount: moved });
+      });
+    }
+
+    const taxes = state.map.locations
+      .filter(l => l.faction_id === faction.id)
+      .reduce((sum, l) => sum + Math.max(0, l.population) * TREASURY_RULES.tax_per_pop
+        * Math.min(100, Math.max(0, l.prosperity)) / 100
+        * (1 - Math.min(100, Math.max(0, l.unrest)) / 100), 0);
+    post('taxes', 'gold', taxes * lawModifiers(faction).tax);
+
+    let laws = faction.laws || [];
+    const enforcement = enforcementCost(state, faction);
+    if (enforcement > 0) {
+      const paid = Math.min(enforcement, Math.max(0, resources.gold));
+      post('law enforcement', 'gold', -paid);
+      if (paid < enforcement) laws = laws.map(law => ({ ...law, enforcement: Math.floor(law.enforcement * paid / enforcement) }));
+    }
+
+    const troops = faction.military.troops;
+    const field = fieldTroops(state, faction.id);
+    const campaign = campaignTroops(state, faction.id);
+    const deficits: ResourceKind[] = [];
+    let unsupported = 0;
+    upkeepDue(troops + field - campaign, campaign).forEach(([resource, due]) => {
+      if (due <= 0) return;
+      const paid = Math.min(due, Math.max(0, resources[resource]));
+      post(`troop ${resource}`, resource, -paid);
+      if (paid >= due) return;
+      deficits.push(resource);
+      if (resource !== 'iron') unsupported = Math.max(unsupported, (troops + field) * (1 - paid / due));
+    });
+
+    const deserted = Math.min(troops + field, Math.ceil(unsupported * TREASURY_RULES.desertion_rate));
+    if (deficits.length) unrest[faction.id] = deficits.length * TREASURY_RULES.deficit_unrest;
+    let fromArmies = Math.max(0, deserted - troops);
+    if (fromArmies > 0) {
+      armies = armies.map(army => {
+        if (army.faction_id !== faction.id || fromArmies <= 0) return army;
+        const lost = Math.min(army.troops, Math.ceil((deserted - troops) * army.troops / field), fromArmies);
+        fromArmies -= lost;
+        return { ...army, troops: army.troops - lost };
+      });
+    }
+
+    const entry: LedgerEntry = { epoch: state.time.epoch, lines, closing: { ...resources }, deficits, deserted };
+    return {
+      ...faction,
+      resources,
+      laws,
+      military: {
+        troops: Math.max(0, troops - deserted),
+        quality: deficits.includes('iron') ? round2(Math.max(0.2, faction.military.quality - TREASURY_RULES.unarmed_quality_loss)) : faction.military.quality
+      },
+      ledger: [...(faction.ledger || []), entry].slice(-TREASURY_RULES.ledger_days)
+    };
+  });
+
+  const locations = state.map.locations.map(l => l.faction_id && unrest[l.faction_id]
+    ? { ...l, unrest: Math.min(100, l.unrest + unrest[l.faction_id]) }
+    : l);
+
+  return { factions, armies, map: { ...state.map, locations } };
+};
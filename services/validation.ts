@@ -0,0 +1,356 @@
+import { Faction, Location, NPC, Commodity, WorldState, EventLogEntry } from '../types';
+import { BUILDING_CATALOG, LAW_CATALOG } from '../constants';
+
+/**
+ * Runtime validators for everything an LLM hands back. Each validator returns a list of
+ * human-readable errors (empty when valid) so the same messages can be fed back to the
+ * model in a repair prompt and written to the event log.
+ */
+
+export type ValidationResult<T> = { value: T; errors: string[] };
+
+export type ValidationReport = {
+  agent: string;
+  epoch: number | null;
+  errors: string[];
+  attempts: number;
+  repaired: boolean;
+};
+
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+const FACTION_ARCHETYPES: Faction['archetype'][] = ['order', 'chaos', 'commerce', 'nature'];
+const LOCATION_TYPES: Location['type'][] = ['town', 'outpost', 'ruin', 'capital'];
+const EXECUTION_CALLS = ['build_structure', 'raise_army', 'apply_influence'];
+const PARAMETER_TYPES = ['string', 'number', 'boolean'];
+const INFLUENCE_FIELDS: Record<string, string[]> = {
+  faction: ['resources.gold', 'resources.grain', 'resources.iron', 'military.troops', 'military.quality'],
+  location: ['prosperity', 'defense', 'unrest', 'population'],
+  npc: ['resources.gold', 'resources.influence']
+};
+
+const isObject = (value: any): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isNumber = (value: any): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const checkString = (errors: string[], path: string, value: any) => {
+  if (typeof value !== 'string' || !value.trim()) errors.push(`${path} must be a non-empty string`);
+};
+
+const checkNumber = (errors: string[], path: string, value: any, min?: number, max?: number) => {
+  if (!isNumber(value)) errors.push(`${path} must be a number`);
+  else if (min !== undefined && value < min) errors.push(`${path} must be >= ${min} (got ${value})`);
+  else if (max !== undefined && value > max) errors.push(`${path} must be <= ${max} (got ${value})`);
+};
+
+const checkEnum = (errors: string[], path: string, value: any, allowed: string[]) => {
+  if (!allowed.includes(value)) errors.push(`${path} must be one of ${allowed.join('|')} (got ${JSON.stringify(value)})`);
+};
+
+const checkArray = (errors: string[], path: string, value: any) => {
+  if (!Array.isArray(value)) errors.push(`${path} must be an array`);
+};
+
+const checkUniqueIds = (errors: string[], path: string, items: { id: string }[]) => {
+  const seen = new Set<string>();
+  items.forEach(item => {
+    if (seen.has(item.id)) errors.push(`${path} has duplicate id "${item.id}"`);
+    seen.add(item.id);
+  });
+};
+
+export const validateFaction = (faction: any, path = 'faction'): string[] => {
+  if (!isObject(faction)) return [`${path} must be an object`];
+  const errors: string[] = [];
+  checkString(errors, `${path}.id`, faction.id);
+  checkString(errors, `${path}.name`, faction.name);
+  checkEnum(errors, `${path}.archetype`, faction.archetype, FACTION_ARCHETYPES);
+  checkString(errors, `${path}.leader_npc_id`, faction.leader_npc_id);
+  if (!isObject(faction.resources)) errors.push(`${path}.resources must be an object`);
+  else ['gold', 'grain', 'iron'].forEach(key => checkNumber(errors, `${path}.resources.${key}`, faction.resources[key], 0));
+  if (!isObject(faction.military)) errors.push(`${path}.military must be an object`);
+  else {
+    checkNumber(errors, `${path}.military.troops`, faction.military.troops, 0);
+    checkNumber(errors, `${path}.military.quality`, faction.military.quality, 0);
+  }
+  checkArray(errors, `${path}.relationships`, faction.relationships);
+  checkArray(errors, `${path}.laws`, faction.laws);
+  return errors;
+};
+
+export const validateLocation = (location: any, path = 'location', bounds?: { width: number; height: number }): string[] => {
+  if (!isObject(location)) return [`${path} must be an object`];
+  const errors: string[] = [];
+  checkString(errors, `${path}.id`, location.id);
+  checkString(errors, `${path}.name`, location.name);
+  checkEnum(errors, `${path}.type`, location.type, LOCATION_TYPES);
+  checkNumber(errors, `${path}.x`, location.x, 0, bounds ? bounds.width - 1 : undefined);
+  checkNumber(errors, `${path}.y`, location.y, 0, bounds ? bounds.height - 1 : undefined);
+  if (isNumber(location.x) && isNumber(location.y) && (!Number.isInteger(location.x) || !Number.isInteger(location.y))) {
+    errors.push(`${path} coordinates must be integers`);
+  }
+  if (location.faction_id !== null) checkString(errors, `${path}.faction_id`, location.faction_id);
+  checkNumber(errors, `${path}.population`, location.population, 0);
+  checkNumber(errors, `${path}.defense`, location.defense, 0, 100);
+  checkNumber(errors, `${path}.prosperity`, location.prosperity, 0, 100);
+  checkNumber(errors, `${path}.unrest`, location.unrest, 0, 100);
+  checkArray(errors, `${path}.buildings`, location.buildings);
+  return errors;
+};
+
+export const validateNPC = (npc: any, path = 'npc'): string[] => {
+  if (!isObject(npc)) return [`${path} must be an object`];
+  const errors: string[] = [];
+  checkString(errors, `${path}.id`, npc.id);
+  checkString(errors, `${path}.name`, npc.name);
+  checkString(errors, `${path}.role`, npc.role);
+  checkString(errors, `${path}.faction_id`, npc.faction_id);
+  checkString(errors, `${path}.location_id`, npc.location_id);
+  if (!Array.isArray(npc.goals)) errors.push(`${path}.goals must be an array`);
+  else npc.goals.forEach((goal: any, i: number) => {
+    if (!isObject(goal)) return errors.push(`${path}.goals[${i}] must be an object`);
+    checkString(errors, `${path}.goals[${i}].text`, goal.text);
+    checkNumber(errors, `${path}.goals[${i}].priority`, goal.priority);
+  });
+  if (!isObject(npc.resources)) errors.push(`${path}.resources must be an object`);
+  checkArray(errors, `${path}.memory`, npc.memory);
+  checkArray(errors, `${path}.relationships`, npc.relationships);
+  return errors;
+};
+
+export const validateCommodity = (commodity: any, path = 'commodity'): string[] => {
+  if (!isObject(commodity)) return [`${path} must be an object`];
+  const errors: string[] = [];
+  checkString(errors, `${path}.id`, commodity.id);
+  checkNumber(errors, `${path}.base_price`, commodity.base_price, 0.01);
+  checkNumber(errors, `${path}.current_price`, commodity.current_price, 0.01);
+  checkNumber(errors, `${path}.supply`, commodity.supply, 0);
+  checkNumber(errors, `${path}.demand`, commodity.demand, 0);
+  checkNumber(errors, `${path}.volatility`, commodity.volatility, 0);
+  return errors;
+};
+
+export const validateAgentTool = (tool: any, path = 'tool'): string[] => {
+  if (!isObject(tool)) return [`${path} must be an object`];
+  const errors: string[] = [];
+  checkString(errors, `${path}.name`, tool.name);
+  checkString(errors, `${path}.description`, tool.description);
+  checkString(errors, `${path}.action_guidance`, tool.action_guidance);
+  if (!Array.isArray(tool.parameters)) errors.push(`${path}.parameters must be an array`);
+  else tool.parameters.forEach((param: any, i: number) => {
+    if (!isObject(param)) return errors.push(`${path}.parameters[${i}] must be an object`);
+    checkString(errors, `${path}.parameters[${i}].name`, param.name);
+    checkEnum(errors, `${path}.parameters[${i}].type`, param.type, PARAMETER_TYPES);
+  });
+  checkNumber(errors, `${path}.cooldown_days`, tool.cooldown_days, 0);
+  return errors;
+};
+
+/** Validates a tool call's name against `allowed` and its arguments against the current world. */
+export const validateToolCall = (call: any, allowed: string[], state: WorldState, path = 'call'): string[] => {
+  if (!isObject(call)) return [`${path} must be an object`];
+  if (!allowed.includes(call.name)) return [`${path}.name must be one of ${allowed.join('|')} (got ${JSON.stringify(call.name)})`];
+  const args = call.args;
+  if (!isObject(args)) return [`${path}.args must be an object`];
+  const errors: string[] = [];
+  const argPath = `${path}(${call.name})`;
+  const locationExists = (id: any) => state.map.locations.some(l => l.id === id);
+
+  if (call.name === 'build_structure') {
+    if (!locationExists(args.location_id)) errors.push(`${argPath}.location_id "${args.location_id}" is not a known location`);
+    checkEnum(errors, `${argPath}.building_type`, args.building_type, Object.keys(BUILDING_CATALOG));
+  } else if (call.name === 'upgrade_structure' || call.name === 'repair_structure') {
+    if (!state.map.locations.some(l => (l.buildings || []).some(b => b.id === args.building_id))) errors.push(`${argPath}.building_id "${args.building_id}" is not a known building`);
+  } else if (call.name === 'raise_army') {
+    if (!locationExists(args.location_id)) errors.push(`${argPath}.location_id "${args.location_id}" is not a known location`);
+    checkNumber(errors, `${argPath}.troops`, args.troops, 1);
+  } else if (call.name === 'move_army' || call.name === 'disband_army') {
+    if (!(state.armies || []).some(a => a.id === args.army_id)) errors.push(`${argPath}.army_id "${args.army_id}" is not a known army`);
+    if (call.name === 'move_army' && !locationExists(args.location_id)) errors.push(`${argPath}.location_id "${args.location_id}" is not a known location`);
+  } else if (['declare_war', 'propose_treaty', 'form_alliance', 'pay_tribute'].includes(call.name)) {
+    if (!state.factions.some(f => f.id === args.target_faction_id)) errors.push(`${argPath}.target_faction_id "${args.target_faction_id}" is not a known faction`);
+    if (args.duration_days !== undefined) checkNumber(errors, `${argPath}.duration_days`, args.duration_days, 1);
+    if (call.name === 'pay_tribute') checkNumber(errors, `${argPath}.gold_per_day`, args.gold_per_day, 0.01);
+  } else if (call.name === 'enact_law' || call.name === 'repeal_law') {
+    checkEnum(errors, `${argPath}.law_id`, args.law_id, Object.keys(LAW_CATALOG));
+    if (args.level !== undefined) checkNumber(errors, `${argPath}.level`, args.level, 0);
+    if (args.enforcement !== undefined) checkNumber(errors, `${argPath}.enforcement`, args.enforcement, 0, 100);
+  } else if (call.name === 'accept_quest' || call.name === 'deliver_goods') {
+    if (!(state.quests || []).some(q => q.id === args.quest_id && q.status === 'open')) errors.push(`${argPath}.quest_id "${args.quest_id}" is not an open quest`);
+    if (call.name === 'deliver_goods' && args.amount !== undefined) checkNumber(errors, `${argPath}.amount`, args.amount, 0.01);
+  } else if (call.name === 'apply_influence') {
+    checkEnum(errors, `${argPath}.target_type`, args.target_type, Object.keys(INFLUENCE_FIELDS));
+    const fields = INFLUENCE_FIELDS[args.target_type];
+    if (fields) {
+      checkEnum(errors, `${argPath}.field`, args.field, fields);
+      const targets: { id: string }[] = args.target_type === 'faction' ? state.factions
+        : args.target_type === 'location' ? state.map.locations
+        : state.npcs;
+      if (!targets.some(t => t.id === args.target_id)) errors.push(`${argPath}.target_id "${args.target_id}" is not a known ${args.target_type}`);
+    }
+    checkNumber(errors, `${argPath}.delta`, args.delta);
+  } else if (call.name === 'travel' || call.name === 'incite_unrest' || call.name === 'preach') {
+    if (!locationExists(args.location_id)) errors.push(`${argPath}.location_id "${args.location_id}" is not a known location`);
+  } else if (call.name === 'open_trade_route') {
+    if (!locationExists(args.from_location_id)) errors.push(`${argPath}.from_location_id "${args.from_location_id}" is not a known location`);
+    if (!locationExists(args.to_location_id)) errors.push(`${argPath}.to_location_id "${args.to_location_id}" is not a known location`);
+    if (!state.economy.commodities.some(c => c.id === args.commodity)) errors.push(`${argPath}.commodity "${args.commodity}" is not a known commodity`);
+    checkNumber(errors, `${argPath}.volume`, args.volume, 1);
+  } else if (call.name === 'get_location') {
+    if (!locationExists(args.location_id)) errors.push(`${argPath}.location_id "${args.location_id}" is not a known location`);
+  } else if (call.name === 'get_market_prices') {
+    if (args.location_id !== undefined && !locationExists(args.location_id)) errors.push(`${argPath}.location_id "${args.location_id}" is not a known location`);
+  } else if (call.name === 'find_path') {
+    if (args.from_location_id !== undefined && !locationExists(args.from_location_id)) errors.push(`${argPath}.from_location_id "${args.from_location_id}" is not a known location`);
+    if (!locationExists(args.to_location_id)) errors.push(`${argPath}.to_location_id "${args.to_location_id}" is not a known location`);
+  } else if (['list_locations_owned', 'get_faction_status', 'get_relationships'].includes(call.name)) {
+    if (args.faction_id !== undefined && !state.factions.some(f => f.id === args.faction_id)) errors.push(`${argPath}.faction_id "${args.faction_id}" is not a known faction`);
+  } else if (call.name === 'recall_memory') {
+    checkString(errors, `${argPath}.query`, args.query);
+  } else if (call.name === 'execute_tool') {
+    checkString(errors, `${argPath}.tool_id`, args.tool_id);
+    if (args.arguments !== undefined && !isObject(args.arguments)) errors.push(`${argPath}.arguments must be an object`);
+  }
+  return errors;
+};
+
+export const validateWorldEvent = (event: any): string[] => {
+  if (!isObject(event)) return ['event must be an object'];
+  const errors: string[] = [];
+  checkString(errors, 'event.title', event.title);
+  checkString(errors, 'event.summary', event.summary);
+  if (event.type !== undefined) checkString(errors, 'event.type', event.type);
+  return errors;
+};
+
+export const validatePlan = (plan: any): string[] => {
+  if (!isObject(plan)) return ['plan must be an object'];
+  if (!Array.isArray(plan.candidates)) return ['plan.candidates must be an array'];
+  const errors: string[] = [];
+  if (plan.candidates.length < 2 || plan.candidates.length > 4) errors.push(`plan.candidates must hold 2-4 plans (got ${plan.candidates.length})`);
+  plan.candidates.forEach((candidate: any, i: number) => {
+    if (!isObject(candidate)) {
+      errors.push(`plan.candidates[${i}] must be an object`);
+      return;
+    }
+    checkString(errors, `plan.candidates[${i}].plan`, candidate.plan);
+    checkArray(errors, `plan.candidates[${i}].pros`, candidate.pros);
+    checkArray(errors, `plan.candidates[${i}].cons`, candidate.cons);
+  });
+  checkNumber(errors, 'plan.chosen_index', plan.chosen_index, 0, Math.max(0, plan.candidates.length - 1));
+  if (isNumber(plan.chosen_index) && !Number.isInteger(plan.chosen_index)) errors.push('plan.chosen_index must be a whole number');
+  checkNumber(errors, 'plan.confidence', plan.confidence, 0, 1);
+  return errors;
+};
+
+export const validateToolExecution = (execution: any, state: WorldState): string[] => {
+  if (!isObject(execution)) return ['execution must be an object'];
+  if (!Array.isArray(execution.calls)) return ['execution.calls must be an array'];
+  const errors: string[] = [];
+  if (execution.calls.length < 1 || execution.calls.length > 3) errors.push(`execution.calls must hold 1-3 calls (got ${execution.calls.length})`);
+  execution.calls.forEach((call: any, i: number) => {
+    const normalized = isObject(call) ? { name: call.tool, args: call.args } : call;
+    errors.push(...validateToolCall(normalized, EXECUTION_CALLS, state, `execution.calls[${i}]`));
+  });
+  return errors;
+};
+
+/** Entity checks plus the cross references genesis output has to get right on its own. */
+export const validateGenesisWorld = (
+  world: { factions: Faction[]; locations: Location[]; npcs: NPC[]; commodities: Commodity[] },
+  bounds: { width: number; height: number }
+): string[] => {
+  const errors: string[] = [];
+  if (!world.factions.length) errors.push('factions must not be empty');
+  if (!world.locations.length) errors.push('locations must not be empty');
+  if (!world.npcs.length) errors.push('npcs must not be empty');
+  world.factions.forEach((f, i) => errors.push(...validateFaction(f, `factions[${i}]`)));
+  world.locations.forEach((l, i) => errors.push(...validateLocation(l, `locations[${i}]`, bounds)));
+  world.npcs.forEach((n, i) => errors.push(...validateNPC(n, `npcs[${i}]`)));
+  world.commodities.forEach((c, i) => errors.push(...validateCommodity(c, `commodities[${i}]`)));
+  checkUniqueIds(errors, 'factions', world.factions);
+  checkUniqueIds(errors, 'locations', world.locations);
+  checkUniqueIds(errors, 'npcs', world.npcs);
+
+  const factionIds = new Set(world.factions.map(f => f.id));
+  const locationIds = new Set(world.locations.map(l => l.id));
+  world.npcs.forEach((npc, i) => {
+    if (!factionIds.has(npc.faction_id)) errors.push(`npcs[${i}].faction_id "${npc.faction_id}" does not match any faction`);
+    if (!locationIds.has(npc.location_id)) errors.push(`npcs[${i}].location_id "${npc.location_id}" does not match any location`);
+  });
+  world.locations.forEach((loc, i) => {
+    if (loc.faction_id !== null && !factionIds.has(loc.faction_id)) errors.push(`locations[${i}].faction_id "${loc.faction_id}" does not match any faction`);
+  });
+  world.factions.forEach((faction, i) => {
+    const leader = world.npcs.find(n => n.id === faction.leader_npc_id);
+    if (faction.leader_npc_id && !leader) errors.push(`factions[${i}].leader_npc_id "${faction.leader_npc_id}" does not match any NPC`);
+    else if (leader && leader.faction_id !== faction.id) errors.push(`factions[${i}].leader_npc_id "${leader.id}" belongs to another faction`);
+  });
+  return errors;
+};
+
+const buildRepairPrompt = (prompt: string, response: any, errors: string[]) => {
+  const previous = JSON.stringify(response ?? null);
+  return `${prompt}
+
+YOUR PREVIOUS RESPONSE FAILED VALIDATION:
+${errors.map(e => `- ${e}`).join('\n')}
+PREVIOUS RESPONSE:
+${previous.length > 4000 ? `${previous.slice(0, 4000)}...` : previous}
+Return a corrected response that fixes every error above.`;
+};
+
+let pendingReports: ValidationReport[] = [];
+
+/**
+ * Calls `generate`, validates with `check` and re-prompts with the errors until the output
+ * passes or the repair budget is spent. Every failure is queued as a report; the last
+ * attempt's result is returned either way so callers decide what to keep.
+ */
+export const generateWithRepair = async <T>(
+  agent: string,
+  prompt: string,
+  generate: (prompt: string) => Promise<any>,
+  check: (response: any) => ValidationResult<T>,
+  epoch: number | null = null
+): Promise<ValidationResult<T>> => {
+  let response = await generate(prompt);
+  let result = check(response);
+  let attempts = 1;
+  const firstErrors = result.errors;
+
+  while (result.errors.length && attempts <= MAX_REPAIR_ATTEMPTS) {
+    response = await generate(buildRepairPrompt(prompt, response, result.errors));
+    result = check(response);
+    attempts++;
+  }
+
+  if (attempts > 1) {
+    pendingReports = [...pendingReports, {
+      agent,
+      epoch,
+      errors: result.errors.length ? result.errors : firstErrors,
+      attempts,
+      repaired: result.errors.length === 0
+    }];
+  }
+  return result;
+};
+
+/** Hands over and clears every report queued since the last drain. */
+export const drainValidationReports = (): ValidationReport[] => {
+  const reports = pendingReports;
+  pendingReports = [];
+  return reports;
+};
+
+export const validationReportEvents = (reports: ValidationReport[], epoch: number): EventLogEntry[] => {
+  return reports.map((report, i) => ({
+    id: `evt_validation_${epoch}_${i}`,
+    epoch,
+    type: 'validation',
+    title: report.repaired ? `Repaired ${report.agent} output` : `Rejected ${report.agent} output`,
+    summary: report.errors.slice(0, 3).join('; ') + (report.errors.length > 3 ? ` (+${report.errors.length - 3} more)` : ''),
+    impact: report,
+    decision_trace_id: null
+  }));
+};
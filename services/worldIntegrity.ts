@@ -0,0 +1,306 @@
+import { WorldState, Location, Tile, EventLogEntry } from '../types';
+import { isLawId } from './laws';
+import { PLAYER_ID } from './quests';
+import { agentRole } from './scheduler';
+
+export type IntegrityIssueKind =
+  | 'location_off_grid'
+  | 'location_on_water'
+  | 'tile_unlinked'
+  | 'tile_dangling_location'
+  | 'tile_dangling_owner'
+  | 'location_dangling_faction'
+  | 'npc_dangling_faction'
+  | 'npc_dangling_location'
+  | 'faction_missing_leader'
+  | 'route_dangling_location'
+  | 'army_dangling_faction'
+  | 'army_off_grid'
+  | 'army_dangling_location'
+  | 'treaty_dangling_faction'
+  | 'quest_dangling_giver'
+  | 'quest_dangling_taker';
+
+export type IntegrityIssue = {
+  kind: IntegrityIssueKind;
+  entity_id: string;
+  message: string;
+};
+
+export type RepairResult = {
+  state: WorldState;
+  repairs: string[];
+  unresolved: IntegrityIssue[];
+};
+
+const tileKey = (x: number, y: number) => `${x},${y}`;
+
+const indexTiles = (tiles: Tile[]) => {
+  const index = new Map<string, number>();
+  tiles.forEach((tile, i) => index.set(tileKey(tile.x, tile.y), i));
+  return index;
+};
+
+const isOnGrid = (state: WorldState, x: number, y: number) =>
+  Number.isInteger(x) && Number.isInteger(y) && x >= 0 && y >= 0 && x < state.map.width && y < state.map.height;
+
+/** Lists every broken reference and misplaced location without changing anything. */
+export const validateWorld = (state: WorldState): IntegrityIssue[] => {
+  const issues: IntegrityIssue[] = [];
+  const tiles = state.map.tiles || [];
+  const tileIndex = indexTiles(tiles);
+  const factionIds = new Set(state.factions.map(f => f.id));
+  const locationIds = new Set(state.map.locations.map(l => l.id));
+  const npcIds = new Set(state.npcs.map(n => n.id));
+
+  state.map.locations.forEach(loc => {
+    if (!isOnGrid(state, loc.x, loc.y)) {
+      issues.push({ kind: 'location_off_grid', entity_id: loc.id, message: `${loc.name} sits off the map at (${loc.x}, ${loc.y})` });
+      return;
+    }
+    const tile = tiles[tileIndex.get(tileKey(loc.x, loc.y)) ?? -1];
+    if (tile?.terrain === 'water') {
+      issues.push({ kind: 'location_on_water', entity_id: loc.id, message: `${loc.name} sits on water at (${loc.x}, ${loc.y})` });
+    } else if (tile && tile.location_id !== loc.id) {
+      issues.push({ kind: 'tile_unlinked', entity_id: loc.id, message: `Tile (${loc.x}, ${loc.y}) does not link to ${loc.name}` });
+    }
+    if (loc.faction_id !== null && !factionIds.has(loc.faction_id)) {
+      issues.push({ kind: 'location_dangling_faction', entity_id: loc.id, message: `${loc.name} belongs to unknown faction ${loc.faction_id}` });
+    }
+  });
+
+  tiles.forEach(tile => {
+    if (tile.location_id !== null) {
+      const loc = state.map.locations.find(l => l.id === tile.location_id);
+      if (!loc || loc.x !== tile.x || loc.y !== tile.y) {
+        issues.push({ kind: 'tile_dangling_location', entity_id: tileKey(tile.x, tile.y), message: `Tile (${tile.x}, ${tile.y}) links to ${loc ? `${loc.name}, which lies elsewhere` : `unknown location ${tile.location_id}`}` });
+      }
+    }
+    if (tile.owner_faction_id !== null && !factionIds.has(tile.owner_faction_id)) {
+      issues.push({ kind: 'tile_dangling_owner', entity_id: tileKey(tile.x, tile.y), message: `Tile (${tile.x}, ${tile.y}) is owned by unknown faction ${tile.owner_faction_id}` });
+    }
+  });
+
+  state.npcs.forEach(npc => {
+    if (!factionIds.has(npc.faction_id)) {
+      issues.push({ kind: 'npc_dangling_faction', entity_id: npc.id, message: `${npc.name} serves unknown faction ${npc.faction_id}` });
+    }
+    if (!locationIds.has(npc.location_id)) {
+      issues.push({ kind: 'npc_dangling_location', entity_id: npc.id, message: `${npc.name} is at unknown location ${npc.location_id}` });
+    }
+  });
+
+  state.factions.forEach(faction => {
+    const leader = state.npcs.find(n => n.id === faction.leader_npc_id);
+    if (!leader || leader.faction_id !== faction.id) {
+      issues.push({ kind: 'faction_missing_leader', entity_id: faction.id, message: `${faction.name} has no valid leader` });
+    }
+  });
+
+  (state.map.routes || []).forEach(route => {
+    if (!locationIds.has(route.from_location_id) || !locationIds.has(route.to_location_id)) {
+      issues.push({ kind: 'route_dangling_location', entity_id: route.id, message: `Route ${route.id} connects an unknown location` });
+    }
+  });
+
+  (state.treaties || []).forEach(treaty => {
+    if (treaty.status === 'active' && !treaty.party_ids.every(id => factionIds.has(id))) {
+      issues.push({ kind: 'treaty_dangling_faction', entity_id: treaty.id, message: `Treaty ${treaty.id} binds an unknown faction` });
+    }
+  });
+
+  (state.armies || []).forEach(army => {
+    if (!factionIds.has(army.faction_id)) {
+      issues.push({ kind: 'army_dangling_faction', entity_id: army.id, message: `${army.name} marches for unknown faction ${army.faction_id}` });
+    }
+    if (!isOnGrid(state, army.x, army.y)) {
+      issues.push({ kind: 'army_off_grid', entity_id: army.id, message: `${army.name} stands off the map at (${army.x}, ${army.y})` });
+    }
+    if ((army.location_id && !locationIds.has(army.location_id)) || (army.destination_location_id && !locationIds.has(army.destination_location_id))) {
+      issues.push({ kind: 'army_dangling_location', entity_id: army.id, message: `${army.name} is bound to an unknown location` });
+    }
+  });
+
+  (state.quests || []).forEach(quest => {
+    if (quest.status === 'open' && !npcIds.has(quest.giver_npc_id)) {
+      issues.push({ kind: 'quest_dangling_giver', entity_id: quest.id, message: `Quest "${quest.title}" was given by unknown NPC ${quest.giver_npc_id}` });
+    }
+    if (quest.status === 'open' && quest.taken_by && quest.taken_by !== PLAYER_ID && !npcIds.has(quest.taken_by)) {
+      issues.push({ kind: 'quest_dangling_taker', entity_id: quest.id, message: `Quest "${quest.title}" is held by unknown NPC ${quest.taken_by}` });
+    }
+  });
+
+  return issues;
+};
+
+const nearestFreeLand = (state: WorldState, tiles: Tile[], loc: Location, taken: Set<string>): Tile | null => {
+  const cx = Math.min(Math.max(Math.round(Number(loc.x) || 0), 0), state.map.width - 1);
+  const cy = Math.min(Math.max(Math.round(Number(loc.y) || 0), 0), state.map.height - 1);
+  let best: Tile | null = null;
+  let bestDist = Infinity;
+  for (const tile of tiles) {
+    if (tile.terrain === 'water' || taken.has(tileKey(tile.x, tile.y))) continue;
+    const dist = (tile.x - cx) ** 2 + (tile.y - cy) ** 2;
+    if (dist < bestDist) {
+      best = tile;
+      bestDist = dist;
+    }
+  }
+  return best;
+};
+
+/**
+ * Fixes what `validateWorld` reports where a sensible default exists: locations snap to
+ * the nearest free land tile, tiles are relinked, dangling references are cleared or
+ * reassigned and leaderless factions promote one of their own NPCs. Anything left over is
+ * returned as `unresolved`. A summary event is appended whenever something was changed.
+ */
+export const repairWorld = (state: WorldState): RepairResult => {
+  const repairs: string[] = [];
+  const factionIds = new Set(state.factions.map(f => f.id));
+  let tiles = [...(state.map.tiles || [])];
+
+  const taken = new Set<string>();
+  const locations = state.map.locations.map(loc => {
+    let next = loc;
+    const tile = tiles.find(t => t.x === loc.x && t.y === loc.y);
+    const misplaced = !isOnGrid(state, loc.x, loc.y) || tile?.terrain === 'water' || (tiles.length > 0 && !tile) || taken.has(tileKey(loc.x, loc.y));
+    if (misplaced && tiles.length > 0) {
+      const land = nearestFreeLand(state, tiles, loc, taken);
+      if (land) {
+        next = { ...next, x: land.x, y: land.y };
+        repairs.push(`Moved ${loc.name} to land at (${land.x}, ${land.y})`);
+      }
+    }
+    if (next.faction_id !== null && !factionIds.has(next.faction_id)) {
+      next = { ...next, faction_id: null };
+      repairs.push(`Cleared unknown owner of ${loc.name}`);
+    }
+    taken.add(tileKey(next.x, next.y));
+    return next;
+  });
+
+  const locationAt = new Map(locations.map(l => [tileKey(l.x, l.y), l]));
+  tiles = tiles.map(tile => {
+    const loc = locationAt.get(tileKey(tile.x, tile.y));
+    const ownerValid = tile.owner_faction_id === null || factionIds.has(tile.owner_faction_id);
+    if (!ownerValid) repairs.push(`Cleared unknown owner of tile (${tile.x}, ${tile.y})`);
+    if (loc) {
+      if (tile.location_id === loc.id && ownerValid) return tile;
+      if (tile.location_id !== loc.id) repairs.push(`Linked tile (${tile.x}, ${tile.y}) to ${loc.name}`);
+      return { ...tile, location_id: loc.id, owner_faction_id: ownerValid ? tile.owner_faction_id ?? loc.faction_id : loc.faction_id };
+    }
+    if (tile.location_id === null && ownerValid) return tile;
+    if (tile.location_id !== null) repairs.push(`Unlinked stale location from tile (${tile.x}, ${tile.y})`);
+    return { ...tile, location_id: null, owner_faction_id: ownerValid ? tile.owner_faction_id : null };
+  });
+
+  const locationIds = new Set(locations.map(l => l.id));
+  const homeOf = (factionId: string) =>
+    locations.find(l => l.faction_id === factionId && l.type === 'capital') || locations.find(l => l.faction_id === factionId) || locations[0];
+
+  const npcs = state.npcs.map(npc => {
+    let next = npc;
+    if (!factionIds.has(next.faction_id) && state.factions.length > 0) {
+      const currentHome = locations.find(l => l.id === next.location_id);
+      const factionId = currentHome?.faction_id && factionIds.has(currentHome.faction_id) ? currentHome.faction_id : state.factions[0].id;
+      next = { ...next, faction_id: factionId };
+      repairs.push(`Reassigned ${npc.name} to ${state.factions.find(f => f.id === factionId)?.name}`);
+    }
+    if (!locationIds.has(next.location_id)) {
+      const home = homeOf(next.faction_id);
+      if (home) {
+        next = { ...next, location_id: home.id };
+        repairs.push(`Moved ${npc.name} to ${home.name}`);
+      }
+    }
+    return next;
+  });
+
+  const factions = state.factions.map(faction => {
+    if ((faction.laws || []).some(law => !isLawId(law.id))) {
+      faction = { ...faction, laws: faction.laws.filter(law => isLawId(law.id)) };
+      repairs.push(`Struck unknown laws from ${faction.name}'s books`);
+    }
+    if (faction.relationships.some(r => !factionIds.has(r.target_faction_id))) {
+      faction = { ...faction, relationships: faction.relationships.filter(r => factionIds.has(r.target_faction_id)) };
+      repairs.push(`Cleared ${faction.name}'s relations with vanished factions`);
+    }
+    const leader = npcs.find(n => n.id === faction.leader_npc_id);
+    if (leader && leader.faction_id === faction.id) return faction;
+    const members = npcs.filter(n => n.faction_id === faction.id);
+    const successor = members.find(n => agentRole(n) === 'ruler')
+      || [...members].sort((a, b) => (b.resources?.influence || 0) - (a.resources?.influence || 0))[0];
+    if (!successor) return faction;
+    repairs.push(`${successor.name} now leads ${faction.name}`);
+    return { ...faction, leader_npc_id: successor.id };
+  });
+
+  const routes = (state.map.routes || []).filter(route => {
+    const valid = locationIds.has(route.from_location_id) && locationIds.has(route.to_location_id);
+    if (!valid) repairs.push(`Dropped route ${route.id} to an unknown location`);
+    return valid;
+  });
+
+  const treaties = (state.treaties || []).map(treaty => {
+    if (treaty.status !== 'active' || treaty.party_ids.every(id => factionIds.has(id))) return treaty;
+    repairs.push(`Voided treaty ${treaty.id} with a vanished faction`);
+    return { ...treaty, status: 'expired' as const };
+  });
+
+  const armies = (state.armies || []).filter(army => {
+    if (!factionIds.has(army.faction_id)) repairs.push(`Dissolved ${army.name} of an unknown faction`);
+    return factionIds.has(army.faction_id);
+  }).map(army => {
+    let next = army;
+    if (!isOnGrid(state, next.x, next.y)) {
+      const home = homeOf(next.faction_id);
+      if (home) {
+        next = { ...next, x: home.x, y: home.y, status: 'garrisoned', location_id: home.id, destination_location_id: null, path: [], siege_days: 0 };
+        repairs.push(`Recalled ${army.name} to ${home.name}`);
+      }
+    }
+    if ((next.location_id && !locationIds.has(next.location_id)) || (next.destination_location_id && !locationIds.has(next.destination_location_id))) {
+      next = { ...next, status: 'camped', location_id: null, destination_location_id: null, path: [], siege_days: 0 };
+      repairs.push(`${army.name} made camp after losing its objective`);
+    }
+    return next;
+  });
+
+  const npcIds = new Set(npcs.map(n => n.id));
+  const quests = (state.quests || []).map(quest => {
+    if (quest.status !== 'open') return quest;
+    if (!npcIds.has(quest.giver_npc_id)) {
+      repairs.push(`Failed quest "${quest.title}" after its giver vanished`);
+      return { ...quest, status: 'failed' as const };
+    }
+    if (quest.taken_by && quest.taken_by !== PLAYER_ID && !npcIds.has(quest.taken_by)) {
+      repairs.push(`Reopened quest "${quest.title}" after its champion vanished`);
+      return { ...quest, taken_by: null };
+    }
+    return quest;
+  });
+
+  if (!repairs.length) return { state, repairs, unresolved: validateWorld(state) };
+
+  const repaired: WorldState = {
+    ...state,
+    map: { ...state.map, tiles, locations, routes },
+    factions,
+    npcs,
+    treaties,
+    armies,
+    quests
+  };
+  const unresolved = validateWorld(repaired);
+  const event: EventLogEntry = {
+    id: `evt_integrity_${state.time.epoch}_${(state.event_log || []).length}`,
+    epoch: state.time.epoch,
+    type: 'integrity',
+    title: 'World Integrity Repaired',
+    summary: repairs.slice(0, 3).join('; ') + (repairs.length > 3 ? ` (+${repairs.length - 3} more)` : ''),
+    impact: { repairs, unresolved },
+    decision_trace_id: null
+  };
+  return { state: { ...repaired, event_log: [...(repaired.event_log || []), event] }, repairs, unresolved };
+};
@@ -9,6 +9,8 @@ export interface Tile {
   terrain: TerrainType;
   owner_faction_id: string | null;
   location_id: string | null;
+  river?: boolean;
+  contested?: boolean;
 }
 
 export interface Building {
@@ -17,6 +19,7 @@ export interface Building {
   level: number;
   owner_npc_id: string;
   status: 'active' | 'damaged' | 'building';
+  build_days_left: number; // days of work left while status is 'building'
 }
 
 export interface Location {
@@ -31,6 +34,10 @@ export interface Location {
   defense: number;
   prosperity: number;
   unrest: number;
+  stockpile: Record<string, number>;
+  prices: Record<string, number>;
+  unrest_days: number; // consecutive days above the rebellion threshold
+  occupied_since: number | null; // epoch of conquest, until the people accept their new rulers
 }
 
 export interface TradeRoute {
@@ -42,6 +49,11 @@ export interface TradeRoute {
   volume: number;
   risk: number;
   status: 'active' | 'disrupted';
+  owner_faction_id: string;
+  path: { x: number; y: number }[];
+  days: number;
+  established_epoch: number;
+  disrupted_until: number | null;
 }
 
 export interface Faction {
@@ -52,8 +64,71 @@ export interface Faction {
   leader_npc_id: string;
   resources: { gold: number; grain: number; iron: number };
   military: { troops: number; quality: number };
-  relationships: { target_faction_id: string; type: 'hostile' | 'neutral' | 'allied'; score: number }[];
-  laws: { id: string; text: string; enforcement: number }[];
+  relationships: { target_faction_id: string; type: 'hostile' | 'neutral' | 'allied'; score: number }[]; // type is the formal stance, score the sentiment (-100..100)
+  laws: FactionLaw[];
+  ledger: LedgerEntry[];
+  reputation: number; // 0-100; falls when the faction breaks its word
+}
+
+export type LawId = 'tax_rate' | 'conscription' | 'trade_tariff' | 'curfew';
+
+export interface FactionLaw {
+  id: LawId;
+  text: string; // the decree as proclaimed
+  level: number; // strength within the catalog's range
+  enforcement: number; // 0-100; costs gold every day, and lax laws are evaded
+  enacted_epoch: number;
+}
+
+export type TreatyKind = 'truce' | 'alliance' | 'tribute';
+
+export interface Treaty {
+  id: string;
+  kind: TreatyKind;
+  party_ids: [string, string]; // proposer first
+  terms: { gold_per_day?: number; payer_faction_id?: string };
+  signed_epoch: number;
+  expires_epoch: number;
+  status: 'active' | 'expired' | 'broken';
+  broken_by: string | null;
+}
+
+export type ResourceKind = 'gold' | 'grain' | 'iron';
+
+export interface LedgerLine {
+  item: string;
+  resource: ResourceKind;
+  amount: number; // signed: income positive, spending negative
+}
+
+export interface LedgerEntry {
+  epoch: number;
+  lines: LedgerLine[];
+  closing: { gold: number; grain: number; iron: number };
+  deficits: ResourceKind[];
+  deserted: number;
+}
+
+export interface Army {
+  id: string;
+  name: string;
+  faction_id: string;
+  troops: number;
+  x: number;
+  y: number;
+  location_id: string | null; // settlement the army is quartered in or besieging
+  destination_location_id: string | null;
+  path: { x: number; y: number }[]; // tiles still to march, excluding the current one
+  status: 'garrisoned' | 'camped' | 'marching' | 'besieging';
+  siege_days: number;
+  raised_epoch: number;
+}
+
+export interface TravelPlan {
+  to_location_id: string;
+  path: { x: number; y: number }[];
+  days_remaining: number;
+  departed_epoch: number;
 }
 
 export interface NPC {
@@ -68,9 +143,17 @@ export interface NPC {
   memory: MemoryItem[];
   location_id: string;
   status: string;
+  travel?: TravelPlan | null;
+  last_turn_epoch: number; // -1 until the scheduler first gives this agent a turn
   portraitUrl?: string; // Generated image URL
 }
 
+/** What an NPC's free-text role amounts to for scheduling and the tools it may use. */
+export type AgentRole = 'ruler' | 'general' | 'merchant' | 'spy' | 'priest' | 'commoner';
+
+/** Standing within the faction: its leader is sovereign, everyone else an officer. */
+export type AgentRank = 'sovereign' | 'officer';
+
 export interface MemoryItem {
   id: string;
   text: string;
@@ -89,13 +172,28 @@ export interface Commodity {
   volatility: number;
 }
 
+export type QuestObjective =
+  | { kind: 'deliver'; commodity: Exclude<ResourceKind, 'gold'>; amount: number; location_id: string; delivered: number }
+  | { kind: 'reduce_unrest'; location_id: string; below: number }
+  | { kind: 'defeat_troops'; target_faction_id: string; troops: number; defeated: number };
+
 export interface Quest {
   id: string;
   title: string;
   status: 'open' | 'completed' | 'failed';
   giver_npc_id: string;
   objective: string;
-  reward: { gold: number };
+  objectives: QuestObjective[]; // all must be met
+  reward: { gold: number }; // paid from the giver's purse
+  taken_by: string | null; // NPC id, or 'player'
+  issued_epoch: number;
+  expires_epoch: number;
+  resolved_epoch: number | null;
+}
+
+/** The person at the screen: what they carry to deliver on quests and the rewards they earn. */
+export interface PlayerState {
+  resources: { gold: number; grain: number; iron: number };
 }
 
 export interface EventLogEntry {
@@ -108,6 +206,13 @@ export interface EventLogEntry {
   decision_trace_id: string | null;
 }
 
+/** One call an agent made during its turn and what came of it; outputs are null until it has run. */
+export interface AgentStep {
+  tool: string;
+  inputs: any;
+  outputs: { success: boolean; message: string; data?: any } | null; // data holds what an observation call returned
+}
+
 export interface DecisionTrace {
   decision_trace_id: string;
   epoch: number;
@@ -117,9 +222,10 @@ export interface DecisionTrace {
   world_facts_used: string[];
   plan_candidates: { plan: string; pros: string[]; cons: string[] }[];
   chosen_plan: string;
-  tool_calls: { tool: string; inputs: any; outputs: any }[];
+  tool_calls: AgentStep[];
+  rejected_calls: { tool: string; inputs: any; reason: string }[]; // refused by the permission check
   world_diff_summary: string[];
-  confidence: number;
+  confidence: number | null; // the agent's own estimate, null when it gave no usable plan
 }
 
 export interface WorldDiff {
@@ -132,8 +238,14 @@ export interface WorldDiff {
   };
 }
 
+export interface RngState {
+  seed: string;
+  state: number;
+}
+
 export interface WorldState {
   time: { day: number; hour: number; epoch: number };
+  rng: RngState;
   map: {
     width: number;
     height: number;
@@ -142,12 +254,15 @@ export interface WorldState {
     routes: TradeRoute[];
   };
   factions: Faction[];
+  treaties: Treaty[];
+  armies: Army[];
   npcs: NPC[];
   economy: {
     commodities: Commodity[];
     market_events: any[];
   };
   quests: Quest[];
+  player: PlayerState;
   event_log: EventLogEntry[];
   decision_traces: DecisionTrace[];
 }